@@ -0,0 +1,281 @@
+import { useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { FolderOpen, FolderPlus, Link2, Loader2, Pencil, Trash2 } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import { useToast } from "@/hooks/use-toast";
+import { supabase } from "@/integrations/supabase/client";
+import { Collection, fetchCollections, refreshCollectionEdges } from "@/lib/collections";
+
+interface CollectionsPanelProps {
+  // Number of files filed directly under each collection
+  fileCounts: Map<string, number>;
+  selectedId: string | null;
+  onSelect: (collectionId: string | null) => void;
+}
+
+// The collection being created (id undefined) or edited
+type CollectionDraft = { id?: string; name: string; description: string };
+
+const CollectionsPanel = ({ fileCounts, selectedId, onSelect }: CollectionsPanelProps) => {
+  const [draft, setDraft] = useState<CollectionDraft | null>(null);
+  const [deleting, setDeleting] = useState<Collection | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const { data: collections = [], isLoading } = useQuery({
+    queryKey: ["collections"],
+    queryFn: fetchCollections,
+  });
+
+  const runAction = async (id: string, action: () => Promise<void>, failure: string) => {
+    setBusyId(id);
+    try {
+      await action();
+    } catch (err) {
+      console.error(failure, err);
+      toast({
+        title: "Error",
+        description: err instanceof Error ? err.message : failure,
+        variant: "destructive",
+      });
+    } finally {
+      setBusyId(null);
+      queryClient.invalidateQueries({ queryKey: ["collections"] });
+    }
+  };
+
+  const handleSave = () => {
+    const current = draft;
+    const name = current?.name.trim();
+    setDraft(null);
+    if (!current || !name) return;
+
+    const description = current.description.trim() || null;
+    runAction(current.id ?? "new", async () => {
+      const { error } = current.id
+        ? await supabase.from("collections").update({ name, description }).eq("id", current.id)
+        : await supabase.from("collections").insert({ name, description });
+      if (error) throw error;
+    }, "Failed to save collection");
+  };
+
+  const handleToggleLinking = (collection: Collection, enabled: boolean) =>
+    runAction(collection.id, async () => {
+      const { error } = await supabase
+        .from("collections")
+        .update({ cross_file_edges: enabled })
+        .eq("id", collection.id);
+      if (error) throw error;
+
+      const queued = await refreshCollectionEdges(collection.id);
+      toast({
+        title: enabled ? "Linking files" : "Links removed",
+        description: enabled
+          ? `Linking ${queued} file${queued === 1 ? "" : "s"} in ${collection.name} to similar chunks in its other files in the background`
+          : `Cross-file edges in ${collection.name} were removed`,
+      });
+    }, "Failed to update cross-file edges");
+
+  const handleDelete = () => {
+    const collection = deleting;
+    setDeleting(null);
+    if (!collection) return;
+
+    runAction(collection.id, async () => {
+      // Drop the cross-file edges while the collection still knows its members
+      if (collection.cross_file_edges) {
+        const { error } = await supabase
+          .from("collections")
+          .update({ cross_file_edges: false })
+          .eq("id", collection.id);
+        if (error) throw error;
+        await refreshCollectionEdges(collection.id);
+      }
+
+      const { error } = await supabase.from("collections").delete().eq("id", collection.id);
+      if (error) throw error;
+      if (selectedId === collection.id) onSelect(null);
+      queryClient.invalidateQueries({ queryKey: ["files"] });
+    }, "Failed to delete collection");
+  };
+
+  return (
+    <Card className="p-6 card-shadow border-border/50 bg-card/50 backdrop-blur space-y-4">
+      <div className="flex items-center justify-between gap-4">
+        <div className="flex items-center gap-3">
+          <FolderOpen className="w-6 h-6 text-accent" />
+          <h2 className="text-2xl font-semibold">Collections</h2>
+        </div>
+        <Button variant="secondary" size="sm" onClick={() => setDraft({ name: "", description: "" })}>
+          <FolderPlus className="w-4 h-4 mr-2" />
+          New collection
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-6">
+          <Loader2 className="w-6 h-6 text-primary animate-spin" />
+        </div>
+      ) : collections.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          Group related files into collections to search them together.
+        </p>
+      ) : (
+        <div className="grid gap-3 md:grid-cols-2 lg:grid-cols-3">
+          {collections.map((collection) => {
+            const isSelected = selectedId === collection.id;
+            const isBusy = busyId === collection.id;
+
+            return (
+              <div
+                key={collection.id}
+                role="button"
+                tabIndex={0}
+                onClick={() => onSelect(isSelected ? null : collection.id)}
+                onKeyDown={(e) => e.key === "Enter" && onSelect(isSelected ? null : collection.id)}
+                className={`p-4 rounded-lg border cursor-pointer transition-all space-y-3 ${
+                  isSelected ? "border-accent bg-accent/10" : "border-border/50 bg-secondary/50 hover:border-accent/60"
+                }`}
+              >
+                <div className="flex items-start justify-between gap-2">
+                  <div className="min-w-0">
+                    <p className="font-medium truncate">{collection.name}</p>
+                    {collection.description && (
+                      <p className="text-xs text-muted-foreground line-clamp-2">{collection.description}</p>
+                    )}
+                  </div>
+                  <Badge variant="outline">{fileCounts.get(collection.id) ?? 0} files</Badge>
+                </div>
+
+                <div className="flex items-center justify-between gap-2" onClick={(e) => e.stopPropagation()}>
+                  <Tooltip>
+                    <TooltipTrigger asChild>
+                      <div className="flex items-center gap-2">
+                        {isBusy ? (
+                          <Loader2 className="w-4 h-4 text-primary animate-spin" />
+                        ) : (
+                          <Switch
+                            id={`link-${collection.id}`}
+                            checked={collection.cross_file_edges}
+                            onCheckedChange={(checked) => handleToggleLinking(collection, checked)}
+                          />
+                        )}
+                        <Label htmlFor={`link-${collection.id}`} className="text-xs flex items-center gap-1">
+                          <Link2 className="w-3 h-3" />
+                          Cross-file edges
+                        </Label>
+                      </div>
+                    </TooltipTrigger>
+                    <TooltipContent className="max-w-xs">
+                      Link each chunk to the most similar chunks in the collection's other files
+                    </TooltipContent>
+                  </Tooltip>
+
+                  <div className="flex items-center">
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      aria-label="Edit collection"
+                      disabled={isBusy}
+                      onClick={() =>
+                        setDraft({ id: collection.id, name: collection.name, description: collection.description ?? "" })
+                      }
+                    >
+                      <Pencil className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      aria-label="Delete collection"
+                      disabled={isBusy}
+                      onClick={() => setDeleting(collection)}
+                    >
+                      <Trash2 className="w-4 h-4 text-destructive" />
+                    </Button>
+                  </div>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      <Dialog open={draft !== null} onOpenChange={(open) => !open && setDraft(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{draft?.id ? "Edit collection" : "New collection"}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="collection-name">Name</Label>
+              <Input
+                id="collection-name"
+                value={draft?.name ?? ""}
+                onChange={(e) => setDraft((current) => current && { ...current, name: e.target.value })}
+                placeholder="e.g. Q3 contracts"
+                className="bg-secondary border-border"
+                autoFocus
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="collection-description">Description</Label>
+              <Textarea
+                id="collection-description"
+                value={draft?.description ?? ""}
+                onChange={(e) => setDraft((current) => current && { ...current, description: e.target.value })}
+                className="bg-secondary border-border"
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="ghost" onClick={() => setDraft(null)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={!draft?.name.trim()}>
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={deleting !== null} onOpenChange={(open) => !open && setDeleting(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {deleting?.name}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The files in this collection are kept; they just no longer belong to a collection.
+              Cross-file edges between them are removed.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete} className="bg-destructive text-destructive-foreground hover:bg-destructive/90">
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+};
+
+export default CollectionsPanel;
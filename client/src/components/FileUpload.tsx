@@ -1,21 +1,471 @@
 import { useState, useCallback } from "react";
-import { Upload, FileText, Loader2, CheckCircle2 } from "lucide-react";
+import { useQuery } from "@tanstack/react-query";
+import { Upload, FileText, FolderOpen, Loader2, CheckCircle2, XCircle, RotateCcw, X, Copy } from "lucide-react";
 import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { Slider } from "@/components/ui/slider";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
 import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { CROSS_FILE_NEIGHBOURS, fetchCollections } from "@/lib/collections";
+import {
+  fromDataTransfer,
+  fromFileList,
+  isLegacyDoc,
+  isSupportedFile,
+  LEGACY_DOC_MESSAGE,
+  runWithConcurrency,
+  type SelectedFile,
+  sha256Hex,
+  SUPPORTED_EXTENSIONS,
+  usesChunking,
+} from "@/lib/file-batch";
+import VersionDiff from "./VersionDiff";
 
 interface FileUploadProps {
   onFileSelect: (file: File | null) => void;
   onFileProcessed: (fileId: string | null) => void;
 }
 
+const NO_KEY_COLUMN = "__none__";
+const NO_COLLECTION = "__none__";
+
+// Mirror MAX_FILE_BYTES and MAX_ARCHIVE_BYTES in the process-file edge function
+const MAX_FILE_BYTES = 5 * 1024 * 1024;
+const MAX_ARCHIVE_BYTES = 50 * 1024 * 1024;
+
+const formatMegabytes = (bytes: number) => `${bytes / 1024 / 1024} MB`;
+
+// Files uploaded and processed at the same time; the rest wait in the queue
+const MAX_CONCURRENT_UPLOADS = 3;
+
+// "conflict" items match an uploaded file by content or name and wait for the user to decide
+type QueueStatus = "conflict" | "pending" | "uploading" | "processing" | "completed" | "failed";
+
+interface UploadConflict {
+  filename: string;
+  // Unset when the match is another file still in the queue
+  fileId?: string;
+  identical: boolean;
+}
+
+interface QueueItem {
+  id: string;
+  file: File;
+  path: string;
+  contentHash: string;
+  csvHeaders: string[];
+  status: QueueStatus;
+  conflict?: UploadConflict;
+  // Upload as the next version of this file instead of a new file
+  versionOf?: string;
+  version?: number;
+  changes?: { added: number; changed: number; removed: number };
+  stage?: string;
+  job?: JobStatus;
+  error?: string;
+  nodesCreated?: number;
+  edgesCreated?: number;
+  // Archives only: unpacked files queued as their own ingestion jobs
+  filesQueued?: number;
+  filesFailed?: number;
+}
+
+type ChunkingStrategy = "fixed" | "sentence" | "paragraph" | "recursive";
+
+const CHUNKING_STRATEGIES: { value: ChunkingStrategy; label: string; description: string }[] = [
+  { value: "recursive", label: "Recursive", description: "Split on paragraphs, then lines, sentences and words" },
+  { value: "sentence", label: "Sentence packing", description: "Pack whole sentences up to a token budget" },
+  { value: "paragraph", label: "Paragraph", description: "Keep paragraphs together up to the chunk size" },
+  { value: "fixed", label: "Fixed size", description: "Fixed-length windows that avoid splitting words" },
+];
+
+const STAGE_LABELS: Record<string, string> = {
+  download: "Downloading file...",
+  chunk: "Extracting data...",
+  embed: "Generating embeddings...",
+  link: "Linking related chunks...",
+  files: "Processing unpacked files...",
+};
+
+// Share of the overall bar each stage covers; embedding dominates the run time
+const STAGE_SPANS: Record<string, [number, number]> = {
+  download: [0, 5],
+  chunk: [5, 25],
+  embed: [25, 90],
+  link: [90, 100],
+};
+
+// Fallback for missed Realtime events or projects without Realtime enabled
+const JOB_POLL_INTERVAL_MS = 5000;
+// A running stage reports progress well within its 5-minute lease; past that
+// plus a sweep interval the worker was most likely stopped
+const JOB_STALL_MS = 6 * 60 * 1000;
+// Failed status reads are retried, backing off from the poll interval up to this
+const MAX_READ_BACKOFF_MS = 60 * 1000;
+
+const readBackoffMs = (failures: number) => Math.min(JOB_POLL_INTERVAL_MS * 2 ** (failures - 1), MAX_READ_BACKOFF_MS);
+
+type IngestionJobRow = Tables<"ingestion_jobs">;
+
+type JobProgress = Record<string, Record<string, number> | undefined>;
+
+interface JobStatus {
+  percent: number;
+  detail: string;
+  etaSeconds: number | null;
+  stalled: boolean;
+}
+
+type RateSample = { time: number; embedded: number };
+
+/* Follow the ingestion job over Realtime until it completes or fails. Only the
+   job's own status ends the watch: the worker keeps going under its lease while
+   a status read fails, and the sweep fails a job whose worker has stopped. */
+const watchJob = (jobId: string, onUpdate: (job: IngestionJobRow, stalled: boolean) => void) =>
+  new Promise<JobProgress>((resolve, reject) => {
+    let settled = false;
+    let lastUpdatedAt: string | null = null;
+    let lastChange = Date.now();
+    let readFailures = 0;
+    let nextReadAt = 0;
+
+    const finish = () => {
+      settled = true;
+      clearInterval(poll);
+      supabase.removeChannel(channel);
+    };
+
+    const handle = (job: IngestionJobRow) => {
+      if (settled) return;
+      if (job.status === "completed") {
+        finish();
+        resolve(job.progress as JobProgress);
+      } else if (job.status === "failed") {
+        finish();
+        reject(new Error(job.error || "Processing failed"));
+      } else {
+        if (job.updated_at !== lastUpdatedAt) {
+          lastUpdatedAt = job.updated_at;
+          lastChange = Date.now();
+        }
+
+        onUpdate(job, Date.now() - lastChange > JOB_STALL_MS);
+      }
+    };
+
+    const refresh = async () => {
+      if (settled || Date.now() < nextReadAt) return;
+      const { data, error } = await supabase.from("ingestion_jobs").select("*").eq("id", jobId).maybeSingle();
+      if (settled) return;
+      if (error) {
+        readFailures += 1;
+        nextReadAt = Date.now() + readBackoffMs(readFailures);
+        console.warn(`Reading ingestion job ${jobId} failed (attempt ${readFailures}):`, error);
+        return;
+      }
+
+      readFailures = 0;
+      nextReadAt = 0;
+      if (!data) {
+        // Deleted along with its file
+        finish();
+        reject(new Error("The ingestion job no longer exists"));
+        return;
+      }
+      handle(data);
+    };
+
+    const channel = supabase
+      .channel(`ingestion-job-${jobId}`)
+      .on(
+        "postgres_changes",
+        { event: "UPDATE", schema: "public", table: "ingestion_jobs", filter: `id=eq.${jobId}` },
+        (payload) => handle(payload.new as IngestionJobRow)
+      )
+      .subscribe((status) => {
+        // Catch up on anything that happened before the subscription was live
+        if (status === "SUBSCRIBED") refresh();
+      });
+
+    const poll = setInterval(refresh, JOB_POLL_INTERVAL_MS);
+  });
+
+/* Wait for every file unpacked from an archive to finish, resolving with how many failed.
+   Their jobs were queued by the worker, so their file rows are polled instead. */
+const watchArchiveFiles = (archiveFileId: string, total: number, onUpdate: (status: JobStatus) => void) =>
+  new Promise<number>((resolve) => {
+    let settled = false;
+    let lastRemaining = total;
+    let lastChange = Date.now();
+    let readFailures = 0;
+    let nextReadAt = 0;
+
+    const finish = () => {
+      settled = true;
+      clearInterval(poll);
+    };
+
+    const countFiles = async (status: string) => {
+      const { count, error } = await supabase
+        .from("files")
+        .select("id", { count: "exact", head: true })
+        .eq("parent_file_id", archiveFileId)
+        .eq("status", status);
+      if (error) throw error;
+      return count ?? 0;
+    };
+
+    // Like watchJob, a failed read is retried; each file's own status ends the watch
+    const refresh = async () => {
+      if (settled || Date.now() < nextReadAt) return;
+      let remaining: number;
+      let failed: number;
+      try {
+        [remaining, failed] = await Promise.all([countFiles("processing"), countFiles("failed")]);
+      } catch (error) {
+        readFailures += 1;
+        nextReadAt = Date.now() + readBackoffMs(readFailures);
+        console.warn(`Reading unpacked files of ${archiveFileId} failed (attempt ${readFailures}):`, error);
+        return;
+      }
+
+      readFailures = 0;
+      nextReadAt = 0;
+      if (settled) return;
+      if (remaining === 0) {
+        finish();
+        resolve(failed);
+        return;
+      }
+
+      if (remaining !== lastRemaining) {
+        lastRemaining = remaining;
+        lastChange = Date.now();
+      }
+
+      const done = total - remaining;
+      onUpdate({
+        percent: (done / total) * 100,
+        detail: `${done} / ${total} files processed${failed ? `, ${failed} failed` : ""}`,
+        etaSeconds: null,
+        stalled: Date.now() - lastChange > JOB_STALL_MS,
+      });
+    };
+
+    const poll = setInterval(refresh, JOB_POLL_INTERVAL_MS);
+    refresh();
+  });
+
+/* Turn the job row into a bar position, a count summary and an embedding ETA */
+const describeJob = (job: IngestionJobRow, sample: RateSample | null, stalled: boolean): JobStatus => {
+  const progress = (job.progress ?? {}) as JobProgress;
+  const [from, to] = STAGE_SPANS[job.stage] ?? [0, 100];
+  let fraction = 0;
+  let detail = "";
+  let etaSeconds: number | null = null;
+
+  const chunk = progress.chunk;
+  if (job.stage === "chunk" && chunk?.chunks) {
+    // Archives also upload each unpacked file before queueing it
+    const done = (chunk.nodesInserted ?? 0) + (chunk.edgesInserted ?? 0) + (chunk.filesUploaded ?? 0);
+    const total = chunk.chunks + (chunk.structuralEdges ?? 0) + (chunk.files ?? 0);
+    fraction = total ? done / total : 0;
+    detail = chunk.files
+      ? `${chunk.filesUploaded ?? 0} / ${chunk.files} files unpacked`
+      : `${chunk.nodesInserted ?? 0} / ${chunk.chunks} nodes, ${chunk.edgesInserted ?? 0} / ${chunk.structuralEdges ?? 0} edges`;
+  }
+
+  const embed = progress.embed;
+  if (job.stage === "embed" && embed?.total) {
+    fraction = embed.embedded / embed.total;
+    detail = `${embed.embedded} / ${embed.total} chunks embedded`;
+
+    if (sample && embed.embedded > sample.embedded) {
+      const perChunk = (Date.now() - sample.time) / (embed.embedded - sample.embedded);
+      etaSeconds = Math.ceil(((embed.total - embed.embedded) * perChunk) / 1000);
+    }
+  }
+
+  if (job.stage === "link" && chunk) {
+    detail = `${chunk.chunks} nodes, ${chunk.structuralEdges} structural edges`;
+  }
+
+  if (job.attempts > 0) {
+    detail = `${detail ? `${detail} · ` : ""}retry ${job.attempts} of ${job.max_attempts - 1}`;
+  }
+
+  const percent = from + (to - from) * Math.min(fraction, 1);
+  if (stalled) {
+    return { percent, detail: "No progress for a while; waiting for the worker to resume", etaSeconds: null, stalled };
+  }
+
+  return { percent, detail, etaSeconds, stalled };
+};
+
+const formatEta = (seconds: number) =>
+  seconds < 60 ? `about ${seconds}s left` : `about ${Math.ceil(seconds / 60)} min left`;
+
+const isCsvFile = (file: File) => file.type === "text/csv" || /\.csv$/i.test(file.name);
+
+const isZipFile = (file: File) =>
+  file.type === "application/zip" || file.type === "application/x-zip-compressed" || /\.zip$/i.test(file.name);
+
+const isTooLarge = (file: File) => file.size > (isZipFile(file) ? MAX_ARCHIVE_BYTES : MAX_FILE_BYTES);
+
+/* Split one CSV line, honouring quoted fields and escaped quotes */
+const splitCsvLine = (line: string, delimiter: string): string[] => {
+  const fields: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (inQuotes) {
+      if (char === "\"" && line[i + 1] === "\"") {
+        field += "\"";
+        i++;
+      } else if (char === "\"") {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === "\"") {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      fields.push(field);
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  fields.push(field);
+  return fields;
+};
+
+/* Read the header row so the user can pick the column rows are linked by.
+   Names match what process-file's CSV parser keys rows by: blank lines are
+   skipped, an empty header becomes column_N and repeats get a _2, _3 suffix. */
+const readCsvHeaders = async (file: File): Promise<string[]> => {
+  const head = (await file.slice(0, 64 * 1024).text()).replace(/^\uFEFF/, "");
+  const firstLine = head.slice(0, head.search(/\r?\n|$/));
+  const delimiter = [",", ";", "\t"].reduce((best, candidate) =>
+    firstLine.split(candidate).length > firstLine.split(best).length ? candidate : best
+  );
+
+  const headerFields = head
+    .split(/\r?\n|\r/)
+    .map((line) => splitCsvLine(line, delimiter))
+    .find((fields) => fields.some((value) => value.trim() !== ""));
+  if (!headerFields) return [];
+
+  const seen = new Map<string, number>();
+  return headerFields.map((value, i) => {
+    const base = value.trim() || `column_${i + 1}`;
+    const count = seen.get(base) ?? 0;
+    seen.set(base, count + 1);
+    return count === 0 ? base : `${base}_${count + 1}`;
+  });
+};
+
+// content_hash / filename values per `in` filter, keeping the request URL short
+const LOOKUP_BATCH_SIZE = 100;
+
+type UploadedFile = { id: string; filename: string; content_hash: string | null };
+
+/* Uploaded files whose content hash or name matches one of the given values */
+const findUploadedFiles = async (column: "content_hash" | "filename", values: string[]) => {
+  const matches: UploadedFile[] = [];
+
+  for (let i = 0; i < values.length; i += LOOKUP_BATCH_SIZE) {
+    const { data, error } = await supabase
+      .from("files")
+      .select("id, filename, content_hash")
+      .in(column, values.slice(i, i + LOOKUP_BATCH_SIZE));
+
+    if (error) throw error;
+    matches.push(...data);
+  }
+
+  return matches;
+};
+
+const describeItem = (item: QueueItem) => {
+  switch (item.status) {
+    case "conflict":
+      return item.conflict?.identical
+        ? `Identical to ${item.conflict.filename}`
+        : `${item.conflict?.filename} already exists`;
+    case "pending":
+      return "Waiting";
+    case "uploading":
+      return "Uploading file...";
+    case "processing":
+      return STAGE_LABELS[item.stage ?? ""] ?? "Processing file...";
+    case "completed":
+      if (item.changes) {
+        const { added, changed, removed } = item.changes;
+        return `Version ${item.version}: ${changed} changed, ${added} added, ${removed} removed`;
+      }
+      if (item.filesQueued) {
+        return item.filesFailed
+          ? `${item.filesQueued} files unpacked, ${item.filesFailed} failed to process`
+          : `${item.filesQueued} files unpacked and processed`;
+      }
+      return `${item.nodesCreated} nodes, ${item.edgesCreated} relationships`;
+    case "failed":
+      return "Failed";
+  }
+};
+
+const StatusIcon = ({ status }: { status: QueueStatus }) => {
+  if (status === "completed") return <CheckCircle2 className="w-5 h-5 shrink-0 text-accent" />;
+  if (status === "failed") return <XCircle className="w-5 h-5 shrink-0 text-destructive" />;
+  if (status === "conflict") return <Copy className="w-5 h-5 shrink-0 text-muted-foreground" />;
+  if (status === "pending") return <FileText className="w-5 h-5 shrink-0 text-primary" />;
+  return <Loader2 className="w-5 h-5 shrink-0 text-primary animate-spin" />;
+};
+
 const FileUpload = ({ onFileSelect, onFileProcessed }: FileUploadProps) => {
-  const [file, setFile] = useState<File | null>(null);
+  const [queue, setQueue] = useState<QueueItem[]>([]);
+  const [csvKeyColumn, setCsvKeyColumn] = useState<string>(NO_KEY_COLUMN);
+  const [chunkingStrategy, setChunkingStrategy] = useState<ChunkingStrategy>("recursive");
+  const [chunkSize, setChunkSize] = useState([500]);
+  const [maxTokens, setMaxTokens] = useState([128]);
+  const [overlap, setOverlap] = useState([50]);
+  const [collectionId, setCollectionId] = useState<string>(NO_COLLECTION);
+  const [linkAcrossFiles, setLinkAcrossFiles] = useState(false);
+  const [crossDocumentK, setCrossDocumentK] = useState([CROSS_FILE_NEIGHBOURS]);
   const [isProcessing, setIsProcessing] = useState(false);
-  const [processingStatus, setProcessingStatus] = useState<string>("");
   const [isDragging, setIsDragging] = useState(false);
+  const [diffItem, setDiffItem] = useState<QueueItem | null>(null);
   const { toast } = useToast();
 
+  const { data: collections = [] } = useQuery({
+    queryKey: ["collections"],
+    queryFn: fetchCollections,
+  });
+
+  const pendingItems = queue.filter((item) => item.status === "pending");
+
+  // Key-column choices across every queued CSV; each file only uses it if it has that column
+  const csvHeaders = [...new Set(pendingItems.flatMap((item) => item.csvHeaders))];
+
+  const updateItem = useCallback((id: string, patch: Partial<QueueItem>) => {
+    setQueue((items) => items.map((item) => (item.id === id ? { ...item, ...patch } : item)));
+  }, []);
+
   const handleDragOver = useCallback((e: React.DragEvent) => {
     e.preventDefault();
     setIsDragging(true);
@@ -26,89 +476,235 @@ const FileUpload = ({ onFileSelect, onFileProcessed }: FileUploadProps) => {
     setIsDragging(false);
   }, []);
 
+  const addFiles = useCallback(async (selected: SelectedFile[]) => {
+    const supported = selected.filter(({ file }) => isSupportedFile(file));
+    const skipped = selected.length - supported.length;
+    const legacyDocs = selected.filter(({ file }) => isLegacyDoc(file)).length;
+
+    if (skipped > 0) {
+      const unsupported = `${skipped} file${skipped === 1 ? " has" : "s have"} an unsupported type`;
+      toast({
+        title: "Some files were skipped",
+        description: legacyDocs === skipped
+          ? LEGACY_DOC_MESSAGE
+          : legacyDocs > 0 ? `${unsupported}. ${LEGACY_DOC_MESSAGE}` : unsupported,
+      });
+    }
+
+    if (supported.length === 0) return;
+
+    const items = await Promise.all(
+      supported.map(async ({ file, path }): Promise<QueueItem> => {
+        const tooLarge = isTooLarge(file);
+        return {
+          id: crypto.randomUUID(),
+          file,
+          path,
+          contentHash: await sha256Hex(file),
+          csvHeaders: isCsvFile(file) ? await readCsvHeaders(file).catch(() => []) : [],
+          status: tooLarge ? "failed" : "pending",
+          error: tooLarge
+            ? isZipFile(file)
+              ? `Archives up to ${formatMegabytes(MAX_ARCHIVE_BYTES)} can be processed`
+              : `Files up to ${formatMegabytes(MAX_FILE_BYTES)} can be processed`
+            : undefined,
+        };
+      })
+    );
+
+    // Files matching an uploaded file (or one earlier in the queue) by content or name need a decision first
+    const byHash = new Map<string, UploadConflict>();
+    const byName = new Map<string, UploadConflict>();
+    for (const item of queue) {
+      byHash.set(item.contentHash, { filename: item.path, identical: true });
+    }
+
+    try {
+      const [sameContent, sameName] = await Promise.all([
+        findUploadedFiles("content_hash", [...new Set(items.map((item) => item.contentHash))]),
+        findUploadedFiles("filename", [...new Set(items.map((item) => item.path))]),
+      ]);
+      for (const file of sameName) {
+        byName.set(file.filename, { filename: file.filename, fileId: file.id, identical: false });
+      }
+      for (const file of sameContent) {
+        if (file.content_hash) {
+          byHash.set(file.content_hash, { filename: file.filename, fileId: file.id, identical: true });
+        }
+      }
+    } catch (error) {
+      console.error("Duplicate check failed:", error);
+    }
+
+    for (const item of items) {
+      const conflict = byHash.get(item.contentHash) ?? byName.get(item.path);
+      if (item.status === "pending" && conflict) {
+        item.status = "conflict";
+        item.conflict = conflict;
+      }
+      if (!byHash.has(item.contentHash)) byHash.set(item.contentHash, { filename: item.path, identical: true });
+    }
+
+    setQueue((current) => [...current, ...items]);
+    onFileSelect(items[0].file);
+  }, [onFileSelect, queue, toast]);
+
   const handleDrop = useCallback((e: React.DragEvent) => {
     e.preventDefault();
     setIsDragging(false);
-    
-    const droppedFile = e.dataTransfer.files[0];
-    if (droppedFile) {
-      setFile(droppedFile);
-      onFileSelect(droppedFile);
-    }
-  }, [onFileSelect]);
+
+    fromDataTransfer(e.dataTransfer).then(addFiles).catch((error) => {
+      console.error("Drop error:", error);
+      toast({ title: "Error", description: "Could not read the dropped files", variant: "destructive" });
+    });
+  }, [addFiles, toast]);
 
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const selectedFile = e.target.files?.[0];
-    if (selectedFile) {
-      setFile(selectedFile);
-      onFileSelect(selectedFile);
-    }
+    addFiles(fromFileList(e.target.files));
+    // Allow the same files to be picked again after removing them
+    e.target.value = "";
   };
 
-  const handleUpload = async () => {
-    if (!file) return;
+  const removeItem = (id: string) => {
+    setQueue((items) => items.filter((item) => item.id !== id));
+  };
 
-    setIsProcessing(true);
-    setProcessingStatus("Uploading file...");
+  const clearFinished = () => {
+    setQueue((items) => items.filter((item) => item.status !== "completed" && item.status !== "failed"));
+  };
+
+  const processItem = async (item: QueueItem): Promise<boolean> => {
+    updateItem(item.id, { status: "uploading", error: undefined, job: undefined });
 
     try {
-      // Upload file to storage
-      const fileName = `${Date.now()}_${file.name}`;
+      // Upload file to storage; same-named files from different folders may start in the same millisecond
+      const fileName = `${crypto.randomUUID()}_${item.file.name}`;
       const { error: uploadError } = await supabase.storage
         .from("uploads")
-        .upload(fileName, file);
+        .upload(fileName, item.file);
 
       if (uploadError) throw uploadError;
 
-      setProcessingStatus("Processing file...");
+      // Create file record, unless this upload is a new version of an existing one
+      let fileId = item.versionOf;
+      if (!fileId) {
+        const { data: fileData, error: fileError } = await supabase
+          .from("files")
+          .insert({
+            filename: item.path,
+            file_path: fileName,
+            file_type: item.file.type,
+            file_size: item.file.size,
+            content_hash: item.contentHash,
+            collection_id: collectionId === NO_COLLECTION ? null : collectionId,
+            status: "processing",
+          })
+          .select()
+          .single();
 
-      // Create file record
-      const { data: fileData, error: fileError } = await supabase
-        .from("files")
-        .insert({
-          filename: file.name,
-          file_path: fileName,
-          file_type: file.type,
-          file_size: file.size,
-          status: "processing",
-        })
-        .select()
-        .single();
+        if (fileError) throw fileError;
+        fileId = fileData.id;
+      }
 
-      if (fileError) throw fileError;
+      // Archives pass it on to the CSV files inside them that have the column
+      const keyColumn = item.csvHeaders.includes(csvKeyColumn) || (isZipFile(item.file) && csvKeyColumn !== NO_KEY_COLUMN)
+        ? csvKeyColumn
+        : undefined;
 
-      setProcessingStatus("Extracting data and generating embeddings...");
-
-      // Call ETL edge function
+      // Queue the ETL job; the edge function works through it in the background
       const { data: etlData, error: etlError } = await supabase.functions.invoke(
         "process-file",
         {
-          body: { fileId: fileData.id, fileName, fileType: file.type },
+          body: {
+            fileId,
+            fileName,
+            fileType: item.file.type,
+            newVersion: Boolean(item.versionOf),
+            fileSize: item.file.size,
+            contentHash: item.contentHash,
+            csvKeyColumn: keyColumn,
+            chunking: {
+              strategy: chunkingStrategy,
+              chunkSize: chunkSize[0],
+              maxTokens: maxTokens[0],
+              overlap: chunkingStrategy === "paragraph" ? 0 : overlap[0],
+            },
+            crossDocument: linkAcrossFiles ? { k: crossDocumentK[0] } : undefined,
+          },
         }
       );
 
       if (etlError) throw etlError;
 
-      setProcessingStatus("Complete!");
-      onFileProcessed(fileData.id);
+      updateItem(item.id, { status: "processing", stage: "download" });
 
-      toast({
-        title: "Success!",
-        description: `Processed ${etlData.nodesCreated} nodes and ${etlData.edgesCreated} relationships`,
+      // Embedding rate is measured from the first update seen during the embed stage
+      let embedSample: RateSample | null = null;
+      const progress = await watchJob(etlData.jobId, (job, stalled) => {
+        const embedded = (job.progress as JobProgress)?.embed?.embedded;
+        if (job.stage === "embed" && embedded !== undefined && !embedSample) {
+          embedSample = { time: Date.now(), embedded };
+        }
+        updateItem(item.id, { stage: job.stage, job: describeJob(job, embedSample, stalled) });
       });
+
+      // An archive is done once the files it unpacked are
+      const chunk = progress.chunk;
+      let filesFailed: number | undefined;
+      if (chunk?.files) {
+        updateItem(item.id, { stage: "files", job: undefined });
+        filesFailed = await watchArchiveFiles(fileId, chunk.files, (status) =>
+          updateItem(item.id, { stage: "files", job: status })
+        );
+      }
+
+      updateItem(item.id, {
+        status: "completed",
+        job: undefined,
+        version: etlData.version,
+        nodesCreated: chunk?.chunks ?? 0,
+        edgesCreated:
+          (chunk?.structuralEdges ?? 0) +
+          (progress.link?.semanticEdges ?? 0) +
+          (progress.link?.crossDocumentEdges ?? 0),
+        filesQueued: chunk?.files,
+        filesFailed,
+        changes: chunk?.superseded === undefined ? undefined : {
+          added: chunk.chunks - (chunk.unchanged ?? 0) - (chunk.changed ?? 0),
+          changed: chunk.changed ?? 0,
+          removed: chunk.superseded - (chunk.changed ?? 0),
+        },
+      });
+      onFileProcessed(fileId);
+      return true;
     } catch (error: any) {
-      console.error("Upload error:", error);
+      console.error(`Upload error (${item.path}):`, error);
+      updateItem(item.id, { status: "failed", job: undefined, error: error.message || "Failed to process file" });
+      return false;
+    }
+  };
+
+  const handleUpload = async () => {
+    if (pendingItems.length === 0) return;
+
+    setIsProcessing(true);
+
+    try {
+      const results = await runWithConcurrency(pendingItems, MAX_CONCURRENT_UPLOADS, processItem);
+      const failed = results.filter((ok) => !ok).length;
+
       toast({
-        title: "Error",
-        description: error.message || "Failed to process file",
-        variant: "destructive",
+        title: failed === 0 ? "Success!" : "Finished with errors",
+        description: `Processed ${results.length - failed} of ${results.length} file${results.length === 1 ? "" : "s"}`,
+        variant: failed === 0 ? "default" : "destructive",
       });
-      setProcessingStatus("");
     } finally {
       setIsProcessing(false);
     }
   };
 
+  const finishedCount = queue.filter((item) => item.status === "completed" || item.status === "failed").length;
+
   return (
     <div className="space-y-4">
       <div
@@ -122,56 +718,272 @@ const FileUpload = ({ onFileSelect, onFileProcessed }: FileUploadProps) => {
         onDrop={handleDrop}
       >
         <Upload className="w-12 h-12 mx-auto mb-4 text-muted-foreground" />
-        <p className="text-lg font-medium mb-2">Drop your file here</p>
+        <p className="text-lg font-medium mb-2">Drop files or folders here</p>
         <p className="text-sm text-muted-foreground mb-4">
-          or click to browse
+          or click to browse · up to {formatMegabytes(MAX_FILE_BYTES)} per file, {formatMegabytes(MAX_ARCHIVE_BYTES)} per .zip
         </p>
         <input
           type="file"
+          multiple
           onChange={handleFileChange}
           className="hidden"
           id="file-upload"
-          accept=".txt,.csv,.json,.pdf,.doc,.docx"
+          accept={SUPPORTED_EXTENSIONS.join(",")}
+        />
+        <input
+          type="file"
+          onChange={handleFileChange}
+          className="hidden"
+          id="folder-upload"
+          // webkitdirectory is not in React's input attribute types
+          ref={(input) => input?.setAttribute("webkitdirectory", "")}
         />
-        <label htmlFor="file-upload">
-          <Button variant="secondary" className="cursor-pointer" asChild>
-            <span>Browse Files</span>
-          </Button>
-        </label>
+        <div className="flex items-center justify-center gap-2">
+          <label htmlFor="file-upload">
+            <Button variant="secondary" className="cursor-pointer" asChild>
+              <span>Browse Files</span>
+            </Button>
+          </label>
+          <label htmlFor="folder-upload">
+            <Button variant="secondary" className="cursor-pointer" asChild>
+              <span>
+                <FolderOpen className="w-4 h-4 mr-2" />
+                Browse Folder
+              </span>
+            </Button>
+          </label>
+        </div>
       </div>
 
-      {file && (
-        <div className="flex items-center justify-between p-4 bg-secondary rounded-lg">
-          <div className="flex items-center gap-3">
-            <FileText className="w-5 h-5 text-primary" />
-            <div>
-              <p className="font-medium">{file.name}</p>
-              <p className="text-sm text-muted-foreground">
-                {(file.size / 1024).toFixed(2)} KB
-              </p>
+      {queue.length > 0 && (
+        <div className="space-y-2 max-h-80 overflow-y-auto pr-1">
+          {queue.map((item) => (
+            <div key={item.id} className="p-3 bg-secondary rounded-lg space-y-2">
+              <div className="flex items-center justify-between gap-3">
+                <div className="flex items-center gap-3 min-w-0">
+                  <StatusIcon status={item.status} />
+                  <div className="min-w-0">
+                    <p className="font-medium truncate">{item.path}</p>
+                    <p className="text-xs text-muted-foreground truncate">
+                      {(item.file.size / 1024).toFixed(2)} KB · {describeItem(item)}
+                    </p>
+                  </div>
+                </div>
+                {item.status === "conflict" && item.conflict && (
+                  <div className="flex items-center gap-1 shrink-0">
+                    {item.conflict.identical && (
+                      <Button variant="ghost" size="sm" onClick={() => removeItem(item.id)}>
+                        Skip
+                      </Button>
+                    )}
+                    {item.conflict.fileId && (
+                      <Button
+                        variant="secondary"
+                        size="sm"
+                        onClick={() => updateItem(item.id, { status: "pending", versionOf: item.conflict?.fileId })}
+                      >
+                        New version
+                      </Button>
+                    )}
+                    {(!item.conflict.identical || !item.conflict.fileId) && (
+                      <Button variant="ghost" size="sm" onClick={() => updateItem(item.id, { status: "pending" })}>
+                        Separate file
+                      </Button>
+                    )}
+                  </div>
+                )}
+                {item.status === "completed" && item.changes && item.versionOf && (
+                  <Button variant="ghost" size="sm" onClick={() => setDiffItem(item)}>
+                    View changes
+                  </Button>
+                )}
+                {!isProcessing && item.status === "pending" && (
+                  <Button variant="ghost" size="icon" onClick={() => removeItem(item.id)} aria-label="Remove file">
+                    <X className="w-4 h-4" />
+                  </Button>
+                )}
+                {!isProcessing && item.status === "failed" && !isTooLarge(item.file) && (
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => updateItem(item.id, { status: "pending", error: undefined })}
+                    aria-label="Retry file"
+                  >
+                    <RotateCcw className="w-4 h-4" />
+                  </Button>
+                )}
+              </div>
+
+              {item.status === "processing" && item.job && (
+                <div className="space-y-1">
+                  <Progress value={item.job.percent} className="h-2" />
+                  <div className="flex justify-between text-xs text-muted-foreground">
+                    <span className={item.job.stalled ? "text-destructive" : undefined}>{item.job.detail}</span>
+                    <span className="font-mono">
+                      {item.job.etaSeconds !== null ? formatEta(item.job.etaSeconds) : `${Math.round(item.job.percent)}%`}
+                    </span>
+                  </div>
+                </div>
+              )}
+
+              {item.error && <p className="text-xs text-destructive">{item.error}</p>}
             </div>
+          ))}
+        </div>
+      )}
+
+      {queue.length > 0 && (
+        <div className="flex items-center justify-between gap-3">
+          <p className="text-sm text-muted-foreground">
+            {finishedCount} of {queue.length} file{queue.length === 1 ? "" : "s"} finished
+          </p>
+          <div className="flex items-center gap-2">
+            {!isProcessing && finishedCount > 0 && (
+              <Button variant="ghost" onClick={clearFinished}>
+                Clear finished
+              </Button>
+            )}
+            {pendingItems.length > 0 && (
+              <Button onClick={handleUpload} disabled={isProcessing} className="glow-effect">
+                {isProcessing && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                Process {pendingItems.length} file{pendingItems.length === 1 ? "" : "s"}
+              </Button>
+            )}
           </div>
-          {!isProcessing && !processingStatus && (
-            <Button onClick={handleUpload} className="glow-effect">
-              Process File
-            </Button>
+        </div>
+      )}
+
+      {/* CSV, JSON and code are split by structure; the options would be ignored */}
+      {pendingItems.some((item) => usesChunking(item.file)) && !isProcessing && (
+        <div className="space-y-4 p-4 bg-secondary/50 rounded-lg border border-border/50">
+          <h3 className="text-sm font-semibold text-foreground">Chunking</h3>
+
+          <Select
+            value={chunkingStrategy}
+            onValueChange={(value) => setChunkingStrategy(value as ChunkingStrategy)}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {CHUNKING_STRATEGIES.map((strategy) => (
+                <SelectItem key={strategy.value} value={strategy.value}>
+                  {strategy.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          {chunkingStrategy === "sentence" ? (
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label className="text-sm">Token budget</Label>
+                <span className="text-sm font-mono text-primary">{maxTokens[0]}</span>
+              </div>
+              <Slider value={maxTokens} onValueChange={setMaxTokens} min={16} max={512} step={16} className="py-2" />
+            </div>
+          ) : (
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label className="text-sm">Chunk size (characters)</Label>
+                <span className="text-sm font-mono text-primary">{chunkSize[0]}</span>
+              </div>
+              <Slider value={chunkSize} onValueChange={setChunkSize} min={100} max={2000} step={50} className="py-2" />
+            </div>
           )}
+
+          {chunkingStrategy !== "paragraph" && (
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label className="text-sm">Overlap (characters)</Label>
+                <span className="text-sm font-mono text-accent">{overlap[0]}</span>
+              </div>
+              <Slider value={overlap} onValueChange={setOverlap} min={0} max={200} step={10} className="py-2" />
+            </div>
+          )}
+
+          <p className="text-xs text-muted-foreground">
+            {CHUNKING_STRATEGIES.find((strategy) => strategy.value === chunkingStrategy)?.description}
+          </p>
         </div>
       )}
 
-      {isProcessing && (
-        <div className="flex items-center gap-3 p-4 bg-primary/10 border border-primary/30 rounded-lg">
-          <Loader2 className="w-5 h-5 text-primary animate-spin" />
-          <p className="text-sm font-medium">{processingStatus}</p>
+      {pendingItems.length > 0 && !isProcessing && (
+        <div className="space-y-4 p-4 bg-secondary/50 rounded-lg border border-border/50">
+          <h3 className="text-sm font-semibold text-foreground">Linking</h3>
+
+          <div className="space-y-2">
+            <Label>Collection</Label>
+            <Select value={collectionId} onValueChange={setCollectionId}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NO_COLLECTION}>No collection</SelectItem>
+                {collections.map((collection) => (
+                  <SelectItem key={collection.id} value={collection.id}>
+                    {collection.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="flex items-center justify-between gap-4">
+            <Label htmlFor="link-across-files" className="text-sm">Link to other files</Label>
+            <Switch id="link-across-files" checked={linkAcrossFiles} onCheckedChange={setLinkAcrossFiles} />
+          </div>
+
+          {linkAcrossFiles && (
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label className="text-sm">Neighbours per chunk</Label>
+                <span className="text-sm font-mono text-accent">{crossDocumentK[0]}</span>
+              </div>
+              <Slider value={crossDocumentK} onValueChange={setCrossDocumentK} min={1} max={20} step={1} className="py-2" />
+            </div>
+          )}
+
+          <p className="text-xs text-muted-foreground">
+            {linkAcrossFiles
+              ? `Each new chunk gets cross_document edges to its most similar chunks in ${
+                  collectionId === NO_COLLECTION ? "every other file" : "the collection's other files"
+                }`
+              : "New files only get cross-file edges when their collection links its files"}
+          </p>
         </div>
       )}
 
-      {processingStatus === "Complete!" && (
-        <div className="flex items-center gap-3 p-4 bg-accent/10 border border-accent/30 rounded-lg">
-          <CheckCircle2 className="w-5 h-5 text-accent" />
-          <p className="text-sm font-medium">File processed successfully!</p>
+      {csvHeaders.length > 0 && !isProcessing && (
+        <div className="space-y-2">
+          <Label>Link rows by column</Label>
+          <Select value={csvKeyColumn} onValueChange={setCsvKeyColumn}>
+            <SelectTrigger>
+              <SelectValue placeholder="Choose a key column" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NO_KEY_COLUMN}>Don't link rows</SelectItem>
+              {csvHeaders.map((header) => (
+                <SelectItem key={header} value={header}>
+                  {header}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <p className="text-xs text-muted-foreground">
+            Rows with the same value in this column are connected in the graph, also in CSV files inside queued archives
+          </p>
         </div>
       )}
+
+      <Dialog open={diffItem !== null} onOpenChange={(open) => !open && setDiffItem(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Changes in {diffItem?.path}</DialogTitle>
+          </DialogHeader>
+          {diffItem?.versionOf && <VersionDiff fileId={diffItem.versionOf} initialTo={diffItem.version} />}
+        </DialogContent>
+      </Dialog>
     </div>
   );
 };
@@ -1,11 +1,16 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { Search, Loader2 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Slider } from "@/components/ui/slider";
+import SearchScopeSelect from "@/components/SearchScopeSelect";
 import { useToast } from "@/hooks/use-toast";
 import { supabase } from "@/integrations/supabase/client";
+import { DEFAULT_RRF_K, FUSION_METHODS, FusionMethod } from "@/lib/fusion";
+import { GRAPH_SCORING, GraphScoring } from "@/lib/graph-scoring";
+import { SearchScope, isEmptyScope, scopeRequestBody } from "@/lib/search-scope";
 
 interface QueryInterfaceProps {
   fileId: string | null;
@@ -16,9 +21,21 @@ const QueryInterface = ({ fileId, onSearchResults }: QueryInterfaceProps) => {
   const [query, setQuery] = useState("");
   const [vectorWeight, setVectorWeight] = useState([0.5]);
   const [graphWeight, setGraphWeight] = useState([0.5]);
+  const [keywordWeight, setKeywordWeight] = useState([0.3]);
+  const [fusion, setFusion] = useState<FusionMethod>("weighted_sum");
+  const [rrfK, setRrfK] = useState([DEFAULT_RRF_K]);
+  const [maxHops, setMaxHops] = useState([2]);
+  const [hopDecay, setHopDecay] = useState([0.5]);
+  const [graphScoring, setGraphScoring] = useState<GraphScoring>("path");
+  const [scope, setScope] = useState<SearchScope>({ kind: "files", fileIds: fileId ? [fileId] : [] });
   const [isSearching, setIsSearching] = useState(false);
   const { toast } = useToast();
 
+  // A newly processed or opened file becomes the search scope
+  useEffect(() => {
+    if (fileId) setScope({ kind: "files", fileIds: [fileId] });
+  }, [fileId]);
+
   const handleSearch = async () => {
     if (!query.trim()) {
       toast({
@@ -29,10 +46,10 @@ const QueryInterface = ({ fileId, onSearchResults }: QueryInterfaceProps) => {
       return;
     }
 
-    if (!fileId) {
+    if (isEmptyScope(scope)) {
       toast({
         title: "Error",
-        description: "Please upload a file first",
+        description: "Please upload a file or select the files to search",
         variant: "destructive",
       });
       return;
@@ -47,9 +64,15 @@ const QueryInterface = ({ fileId, onSearchResults }: QueryInterfaceProps) => {
       const { data, error } = await supabase.functions.invoke("hybrid-search", {
         body: {
           query,
-          fileId,
+          ...scopeRequestBody(scope),
           vectorWeight: vectorWeight[0],
           graphWeight: graphWeight[0],
+          keywordWeight: keywordWeight[0],
+          fusion,
+          rrfK: rrfK[0],
+          maxHops: maxHops[0],
+          hopDecay: hopDecay[0],
+          graphScoring,
           topK: 10,
         },
       });
@@ -72,11 +95,14 @@ const QueryInterface = ({ fileId, onSearchResults }: QueryInterfaceProps) => {
         query,
         vectorWeight: vectorWeight[0],
         graphWeight: graphWeight[0],
+        keywordWeight: keywordWeight[0],
       });
 
       toast({
         title: "Search Complete",
-        description: `Found ${data.vectorResults?.length || 0} results in ${executionTime}ms`,
+        description: data.skippedFiles?.length
+          ? `Found ${data.vectorResults?.length || 0} results in ${executionTime}ms; skipped ${data.skippedFiles.length} file(s) embedded with another model`
+          : `Found ${data.vectorResults?.length || 0} results in ${executionTime}ms`,
       });
     } catch (error: any) {
       console.error("Search error:", error);
@@ -105,7 +131,7 @@ const QueryInterface = ({ fileId, onSearchResults }: QueryInterfaceProps) => {
           />
           <Button
             onClick={handleSearch}
-            disabled={isSearching || !fileId}
+            disabled={isSearching || isEmptyScope(scope)}
             className="glow-effect"
           >
             {isSearching ? (
@@ -117,6 +143,11 @@ const QueryInterface = ({ fileId, onSearchResults }: QueryInterfaceProps) => {
         </div>
       </div>
 
+      <div className="space-y-2">
+        <Label>Search In</Label>
+        <SearchScopeSelect value={scope} onChange={setScope} />
+      </div>
+
       <div className="space-y-4 p-4 bg-secondary/50 rounded-lg border border-border/50">
         <h3 className="text-sm font-semibold text-foreground">Hybrid Search Weights</h3>
         
@@ -148,8 +179,108 @@ const QueryInterface = ({ fileId, onSearchResults }: QueryInterfaceProps) => {
           />
         </div>
 
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <Label className="text-sm">Keyword Match</Label>
+            <span className="text-sm font-mono text-primary">{keywordWeight[0].toFixed(2)}</span>
+          </div>
+          <Slider
+            value={keywordWeight}
+            onValueChange={setKeywordWeight}
+            max={1}
+            step={0.1}
+            className="py-2"
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label className="text-sm">Score Fusion</Label>
+          <Select value={fusion} onValueChange={(value) => setFusion(value as FusionMethod)}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {FUSION_METHODS.map((method) => (
+                <SelectItem key={method.value} value={method.value}>
+                  {method.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <p className="text-xs text-muted-foreground">
+            {FUSION_METHODS.find((method) => method.value === fusion)?.description}
+          </p>
+        </div>
+
+        {fusion === "rrf" && (
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label className="text-sm">RRF k</Label>
+              <span className="text-sm font-mono text-primary">{rrfK[0]}</span>
+            </div>
+            <Slider value={rrfK} onValueChange={setRrfK} min={1} max={100} step={1} className="py-2" />
+          </div>
+        )}
+
+        <p className="text-xs text-muted-foreground">
+          Adjust weights to balance between semantic similarity, exact keyword matches and graph relationships
+        </p>
+      </div>
+
+      <div className="space-y-4 p-4 bg-secondary/50 rounded-lg border border-border/50">
+        <h3 className="text-sm font-semibold text-foreground">Graph Traversal</h3>
+
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <Label className="text-sm">Max Hops</Label>
+            <span className="text-sm font-mono text-accent">{maxHops[0]}</span>
+          </div>
+          <Slider
+            value={maxHops}
+            onValueChange={setMaxHops}
+            min={1}
+            max={4}
+            step={1}
+            className="py-2"
+          />
+        </div>
+
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <Label className="text-sm">Decay per Hop</Label>
+            <span className="text-sm font-mono text-accent">{hopDecay[0].toFixed(2)}</span>
+          </div>
+          <Slider
+            value={hopDecay}
+            onValueChange={setHopDecay}
+            min={0.1}
+            max={1}
+            step={0.05}
+            className="py-2"
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label className="text-sm">Graph Score</Label>
+          <Select value={graphScoring} onValueChange={(value) => setGraphScoring(value as GraphScoring)}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {GRAPH_SCORING.map((option) => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <p className="text-xs text-muted-foreground">
+            {GRAPH_SCORING.find((option) => option.value === graphScoring)?.description}
+          </p>
+        </div>
+
         <p className="text-xs text-muted-foreground">
-          Adjust weights to balance between semantic similarity and graph relationships
+          Each extra hop multiplies a route's edge weights by the decay, so distant passages rank lower
         </p>
       </div>
     </div>
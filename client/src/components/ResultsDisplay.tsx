@@ -2,7 +2,9 @@ import { useMemo } from "react";
 import { Card } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { Database, GitBranch, Zap, Clock } from "lucide-react";
+import { Database, GitBranch, Zap, Clock, TextSearch } from "lucide-react";
+import { Fusion, fusionLabel } from "@/lib/fusion";
+import { GraphScoring, graphScoringLabel } from "@/lib/graph-scoring";
 import GraphVisualization, { GraphVisualizationData } from "./GraphVisualization";
 
 /* -------------------------------
@@ -12,7 +14,9 @@ type HybridResult = {
   nodeId: string;
   nodeType?: string;
   content?: string;
+  fileName?: string;
   vectorScore?: number;
+  keywordScore?: number;
   graphScore?: number;
   hybridScore?: number;
   connections?: number;
@@ -22,15 +26,31 @@ type VectorResult = {
   nodeId: string;
   nodeType?: string;
   content?: string;
+  fileName?: string;
   similarity?: number;
   vectorScore?: number;
 };
 
+type KeywordResult = {
+  nodeId: string;
+  nodeType?: string;
+  content?: string;
+  fileName?: string;
+  keywordScore?: number;
+  bm25?: number;
+  matchingWords?: string[];
+};
+
 type GraphResult = {
   nodeId: string;
   nodeType?: string;
   content?: string;
+  fileName?: string;
   distance?: number;
+  graphScore?: number;
+  pagerank?: number;
+  edgeType?: string;
+  crossDocument?: boolean;
   path?: string[];
   pathLabels?: string[];
   matchingSentence?: string;
@@ -40,12 +60,16 @@ type GraphResult = {
 interface ResultsDisplayProps {
   results: {
     vectorResults?: VectorResult[];
+    keywordResults?: KeywordResult[];
     graphResults?: GraphResult[];
     hybridResults?: HybridResult[];
     executionTime?: number;
     query?: string;
     vectorWeight?: number;
     graphWeight?: number;
+    keywordWeight?: number;
+    fusion?: Fusion;
+    graphScoring?: GraphScoring;
     graphVisualization?: GraphVisualizationData;
   };
 }
@@ -64,12 +88,16 @@ const formatScore = (value: number | null | undefined) =>
 const ResultsDisplay = ({ results }: ResultsDisplayProps) => {
   const {
     vectorResults,
+    keywordResults,
     graphResults,
     hybridResults,
     executionTime,
     query,
     vectorWeight = 0.5,
     graphWeight = 0.5,
+    keywordWeight = 0,
+    fusion,
+    graphScoring,
     graphVisualization,
   } = results;
 
@@ -90,18 +118,20 @@ const ResultsDisplay = ({ results }: ResultsDisplayProps) => {
     return (
       hybridResults?.map((h) => {
         const vScore = h.vectorScore ?? (h as any).similarity ?? 0;
+        const kScore = h.keywordScore ?? 0;
         const gScore = h.graphScore ?? 0;
 
         return {
           ...h,
           content: safeLabel(h.content, `Node ${h.nodeId}`),
           vectorScore: vScore,
+          keywordScore: kScore,
           graphScore: gScore,
-          hybridScore: h.hybridScore ?? vScore * vectorWeight + gScore * graphWeight,
+          hybridScore: h.hybridScore ?? vScore * vectorWeight + kScore * keywordWeight + gScore * graphWeight,
         };
       }) || []
     );
-  }, [hybridResults, vectorWeight, graphWeight]);
+  }, [hybridResults, vectorWeight, keywordWeight, graphWeight]);
 
   /* ------------------------------------------
       GRAPH NODES FIX
@@ -191,20 +221,36 @@ const ResultsDisplay = ({ results }: ResultsDisplayProps) => {
           <Badge variant="outline" className="text-primary border-primary/50">
             Vector: {(vectorWeight * 100).toFixed(0)}%
           </Badge>
+          <Badge variant="outline" className="text-primary border-primary/50">
+            Keyword: {(keywordWeight * 100).toFixed(0)}%
+          </Badge>
           <Badge variant="outline" className="text-accent border-accent/50">
             Graph: {(graphWeight * 100).toFixed(0)}%
           </Badge>
+          {fusion && (
+            <Badge variant="outline">
+              Fusion: {fusionLabel(fusion)}
+            </Badge>
+          )}
+          {graphScoring && (
+            <Badge variant="outline" className="text-accent border-accent/50">
+              Graph score: {graphScoringLabel(graphScoring)}
+            </Badge>
+          )}
         </div>
 
         {/* TABS */}
         <Tabs defaultValue="hybrid">
-          <TabsList className="grid grid-cols-3">
+          <TabsList className="grid grid-cols-4">
             <TabsTrigger value="hybrid">
               <Zap className="w-4 h-4" /> Hybrid
             </TabsTrigger>
             <TabsTrigger value="vector">
               <Database className="w-4 h-4" /> Vector
             </TabsTrigger>
+            <TabsTrigger value="keyword">
+              <TextSearch className="w-4 h-4" /> Keyword
+            </TabsTrigger>
             <TabsTrigger value="graph">
               <GitBranch className="w-4 h-4" /> Graph
             </TabsTrigger>
@@ -218,7 +264,12 @@ const ResultsDisplay = ({ results }: ResultsDisplayProps) => {
                 className="p-4 bg-secondary/50 border-primary/30 hover:border-primary/60 transition-all"
               >
                 <div className="flex items-start justify-between mb-2">
-                  <Badge variant="outline">{result.nodeType}</Badge>
+                  <div className="flex items-center gap-2 min-w-0">
+                    <Badge variant="outline">{result.nodeType}</Badge>
+                    {result.fileName && (
+                      <span className="text-xs text-muted-foreground truncate">{result.fileName}</span>
+                    )}
+                  </div>
                   <Badge className="bg-primary/20 text-primary">
                     Score: {formatScore(result.hybridScore)}
                   </Badge>
@@ -228,6 +279,7 @@ const ResultsDisplay = ({ results }: ResultsDisplayProps) => {
 
                 <div className="mt-3 flex gap-4 text-xs text-muted-foreground">
                   <span>Vector: {formatScore(result.vectorScore)}</span>
+                  <span>Keyword: {formatScore(result.keywordScore)}</span>
                   <span>Graph: {formatScore(result.graphScore)}</span>
                 </div>
               </Card>
@@ -242,7 +294,12 @@ const ResultsDisplay = ({ results }: ResultsDisplayProps) => {
                 className="p-4 bg-secondary/50 border-primary/30 hover:border-primary/60 transition-all"
               >
                 <div className="flex items-start justify-between mb-2">
-                  <Badge variant="outline">{result.nodeType}</Badge>
+                  <div className="flex items-center gap-2 min-w-0">
+                    <Badge variant="outline">{result.nodeType}</Badge>
+                    {result.fileName && (
+                      <span className="text-xs text-muted-foreground truncate">{result.fileName}</span>
+                    )}
+                  </div>
                   <Badge className="bg-primary/20 text-primary">
                     Similarity: {formatScore(result.similarity)}
                   </Badge>
@@ -252,6 +309,40 @@ const ResultsDisplay = ({ results }: ResultsDisplayProps) => {
             ))}
           </TabsContent>
 
+          {/* KEYWORD RESULTS */}
+          <TabsContent value="keyword" className="mt-6 space-y-4">
+            {keywordResults?.length ? (
+              keywordResults.map((result, index) => (
+                <Card
+                  key={index}
+                  className="p-4 bg-secondary/50 border-primary/30 hover:border-primary/60 transition-all"
+                >
+                  <div className="flex items-start justify-between mb-2">
+                    <div className="flex items-center gap-2 min-w-0">
+                      <Badge variant="outline">{result.nodeType}</Badge>
+                      {result.fileName && (
+                        <span className="text-xs text-muted-foreground truncate">{result.fileName}</span>
+                      )}
+                    </div>
+                    <Badge className="bg-primary/20 text-primary">
+                      BM25: {formatScore(result.bm25)}
+                    </Badge>
+                  </div>
+                  <p className="text-sm">{safeLabel(result.content, `Node ${result.nodeId}`)}</p>
+                  {result.matchingWords?.length ? (
+                    <p className="text-xs text-muted-foreground mt-3">
+                      Matched: {result.matchingWords.join(", ")}
+                    </p>
+                  ) : null}
+                </Card>
+              ))
+            ) : (
+              <Card className="p-4 border-dashed border-primary/30 text-muted-foreground">
+                No passage contains the query's terms.
+              </Card>
+            )}
+          </TabsContent>
+
           {/* GRAPH RESULTS */}
           <TabsContent value="graph" className="mt-6 space-y-6">
             <GraphVisualization
@@ -267,9 +358,19 @@ const ResultsDisplay = ({ results }: ResultsDisplayProps) => {
                     className="p-4 bg-secondary/50 border-accent/30 hover:border-accent/60 transition-all"
                   >
                     <div className="flex items-start justify-between mb-2">
-                      <Badge variant="outline">{result.nodeType}</Badge>
+                      <div className="flex items-center gap-2 min-w-0">
+                        <Badge variant="outline">{result.nodeType}</Badge>
+                        {result.crossDocument && (
+                          <Badge variant="outline" className="text-accent border-accent/50">
+                            Cross-document
+                          </Badge>
+                        )}
+                        {result.fileName && (
+                          <span className="text-xs text-muted-foreground truncate">{result.fileName}</span>
+                        )}
+                      </div>
                       <Badge className="bg-accent/20 text-accent">
-                        Distance: {result.distance}
+                        {result.distance === 1 ? "1 hop" : `${result.distance} hops`}
                       </Badge>
                     </div>
 
@@ -284,6 +385,12 @@ const ResultsDisplay = ({ results }: ResultsDisplayProps) => {
                         Path: {result.path.join(" → ")}
                       </p>
                     ) : null}
+
+                    {typeof result.pagerank === "number" && (
+                      <p className="text-xs text-muted-foreground mt-1">
+                        PageRank: {result.pagerank.toExponential(2)} (graph score {formatScore(result.graphScore)})
+                      </p>
+                    )}
                   </Card>
                 ))}
               </div>
@@ -0,0 +1,134 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Check, ChevronsUpDown, Files, FolderOpen } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+  CommandSeparator,
+} from "@/components/ui/command";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { supabase } from "@/integrations/supabase/client";
+import { fetchCollections } from "@/lib/collections";
+import type { SearchScope } from "@/lib/search-scope";
+
+interface SearchScopeSelectProps {
+  value: SearchScope;
+  onChange: (scope: SearchScope) => void;
+}
+
+const fetchSearchableFiles = async () => {
+  const { data, error } = await supabase
+    .from("files")
+    .select("id, filename")
+    .eq("status", "completed")
+    .order("filename");
+  if (error) throw error;
+  return data;
+};
+
+const SearchScopeSelect = ({ value, onChange }: SearchScopeSelectProps) => {
+  const [open, setOpen] = useState(false);
+  const { data: files = [] } = useQuery({
+    queryKey: ["files", "searchable"],
+    queryFn: fetchSearchableFiles,
+  });
+  const { data: collections = [] } = useQuery({
+    queryKey: ["collections"],
+    queryFn: fetchCollections,
+  });
+
+  const selectedIds = value.kind === "files" ? value.fileIds : [];
+
+  const toggleFile = (fileId: string) =>
+    onChange({
+      kind: "files",
+      fileIds: selectedIds.includes(fileId)
+        ? selectedIds.filter((id) => id !== fileId)
+        : [...selectedIds, fileId],
+    });
+
+  const summary =
+    value.kind === "all"
+      ? "All files"
+      : value.kind === "collection"
+        ? collections.find((collection) => collection.id === value.collectionId)?.name ?? "Collection"
+        : selectedIds.length === 1
+        ? files.find((file) => file.id === selectedIds[0])?.filename ?? "1 file"
+        : selectedIds.length === 0
+          ? "Select files..."
+          : `${selectedIds.length} files`;
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button variant="outline" role="combobox" aria-expanded={open} className="w-full justify-between">
+          <span className="flex items-center gap-2 truncate">
+            <Files className="w-4 h-4 shrink-0 text-primary" />
+            <span className="truncate">{summary}</span>
+          </span>
+          <ChevronsUpDown className="w-4 h-4 shrink-0 opacity-50" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-[--radix-popover-trigger-width] p-0" align="start">
+        <Command>
+          <CommandInput placeholder="Find a file..." />
+          <CommandList>
+            <CommandEmpty>No processed files found.</CommandEmpty>
+            <CommandGroup>
+              <CommandItem
+                value="all files"
+                onSelect={() => onChange(value.kind === "all" ? { kind: "files", fileIds: [] } : { kind: "all" })}
+              >
+                <Check className={`w-4 h-4 mr-2 ${value.kind === "all" ? "opacity-100" : "opacity-0"}`} />
+                All files
+              </CommandItem>
+            </CommandGroup>
+            {collections.length > 0 && (
+              <>
+                <CommandSeparator />
+                <CommandGroup heading="Collections">
+                  {collections.map((collection) => {
+                    const selected = value.kind === "collection" && value.collectionId === collection.id;
+                    return (
+                      <CommandItem
+                        key={collection.id}
+                        value={`collection ${collection.name} ${collection.id}`}
+                        onSelect={() =>
+                          onChange(selected ? { kind: "files", fileIds: [] } : { kind: "collection", collectionId: collection.id })
+                        }
+                      >
+                        <Check className={`w-4 h-4 mr-2 ${selected ? "opacity-100" : "opacity-0"}`} />
+                        <FolderOpen className="w-4 h-4 mr-2 text-accent" />
+                        <span className="truncate">{collection.name}</span>
+                      </CommandItem>
+                    );
+                  })}
+                </CommandGroup>
+              </>
+            )}
+            <CommandSeparator />
+            <CommandGroup heading="Files">
+              {files.map((file) => (
+                <CommandItem key={file.id} value={`${file.filename} ${file.id}`} onSelect={() => toggleFile(file.id)}>
+                  <Check
+                    className={`w-4 h-4 mr-2 ${
+                      value.kind === "all" || selectedIds.includes(file.id) ? "opacity-100" : "opacity-0"
+                    }`}
+                  />
+                  <span className="truncate">{file.filename}</span>
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          </CommandList>
+        </Command>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default SearchScopeSelect;
@@ -0,0 +1,168 @@
+import { useEffect, useState } from "react";
+import { Loader2 } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+
+type DiffRow = Database["public"]["Functions"]["diff_file_versions"]["Returns"][number];
+
+interface VersionDiffProps {
+  fileId: string;
+  // Versions compared when the view opens; defaults to the latest two
+  initialTo?: number;
+}
+
+const CHANGE_STYLES: Record<string, { label: string; className: string }> = {
+  added: { label: "Added", className: "bg-accent/20 text-accent border-accent/40" },
+  changed: { label: "Changed", className: "bg-primary/20 text-primary border-primary/40" },
+  removed: { label: "Removed", className: "bg-destructive/20 text-destructive border-destructive/40" },
+};
+
+const CHANGE_ORDER = ["changed", "added", "removed"];
+
+const PREVIEW_CHARS = 280;
+
+const preview = (text: string | null) =>
+  text && text.length > PREVIEW_CHARS ? `${text.slice(0, PREVIEW_CHARS)}...` : text ?? "";
+
+const VersionDiff = ({ fileId, initialTo }: VersionDiffProps) => {
+  const [versions, setVersions] = useState<number[]>([]);
+  const [fromVersion, setFromVersion] = useState<number | null>(null);
+  const [toVersion, setToVersion] = useState<number | null>(null);
+  const [rows, setRows] = useState<DiffRow[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    supabase
+      .from("file_versions")
+      .select("version")
+      .eq("file_id", fileId)
+      .order("version")
+      .then(({ data, error: versionsError }) => {
+        if (versionsError) {
+          setError(versionsError.message);
+          return;
+        }
+
+        const available = (data ?? []).map((row) => row.version);
+        const to = initialTo && available.includes(initialTo) ? initialTo : available[available.length - 1];
+        setVersions(available);
+        setToVersion(to ?? null);
+        setFromVersion(available.filter((version) => version < to).pop() ?? null);
+      });
+  }, [fileId, initialTo]);
+
+  useEffect(() => {
+    if (fromVersion === null || toVersion === null) return;
+
+    setIsLoading(true);
+    setError(null);
+    supabase
+      .rpc("diff_file_versions", { p_file_id: fileId, p_from: fromVersion, p_to: toVersion })
+      .then(({ data, error: diffError }) => {
+        if (diffError) setError(diffError.message);
+        setRows(
+          [...(data ?? [])].sort((a, b) => CHANGE_ORDER.indexOf(a.change) - CHANGE_ORDER.indexOf(b.change))
+        );
+        setIsLoading(false);
+      });
+  }, [fileId, fromVersion, toVersion]);
+
+  if (versions.length < 2) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        {error ?? "Upload a new version of this file to compare versions."}
+      </p>
+    );
+  }
+
+  const counts = CHANGE_ORDER.map((change) => [change, rows.filter((row) => row.change === change).length] as const);
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label>From version</Label>
+          <Select value={String(fromVersion)} onValueChange={(value) => setFromVersion(Number(value))}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {versions.filter((version) => version < (toVersion ?? Infinity)).map((version) => (
+                <SelectItem key={version} value={String(version)}>
+                  Version {version}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label>To version</Label>
+          <Select value={String(toVersion)} onValueChange={(value) => setToVersion(Number(value))}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {versions.filter((version) => version > (fromVersion ?? 0)).map((version) => (
+                <SelectItem key={version} value={String(version)}>
+                  Version {version}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="flex items-center gap-2">
+        {counts.map(([change, count]) => (
+          <Badge key={change} variant="outline" className={CHANGE_STYLES[change].className}>
+            {count} {CHANGE_STYLES[change].label.toLowerCase()}
+          </Badge>
+        ))}
+      </div>
+
+      {error && <p className="text-sm text-destructive">{error}</p>}
+
+      {isLoading ? (
+        <div className="flex justify-center py-8">
+          <Loader2 className="w-6 h-6 text-primary animate-spin" />
+        </div>
+      ) : rows.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No nodes differ between these versions.</p>
+      ) : (
+        <ScrollArea className="h-96 pr-3">
+          <div className="space-y-2">
+            {rows.map((row) => (
+              <div key={`${row.change}-${row.node_id}`} className="p-3 rounded-lg bg-secondary space-y-2">
+                <div className="flex items-center gap-2">
+                  <Badge variant="outline" className={CHANGE_STYLES[row.change]?.className}>
+                    {CHANGE_STYLES[row.change]?.label ?? row.change}
+                  </Badge>
+                  <span className="text-xs text-muted-foreground">{row.node_type}</span>
+                </div>
+                {row.change === "changed" && (
+                  <p className="text-sm text-destructive/80 line-through whitespace-pre-wrap">
+                    {preview(row.previous_content)}
+                  </p>
+                )}
+                <p className="text-sm whitespace-pre-wrap">{preview(row.content)}</p>
+              </div>
+            ))}
+          </div>
+        </ScrollArea>
+      )}
+    </div>
+  );
+};
+
+export default VersionDiff;
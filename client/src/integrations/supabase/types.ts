@@ -14,6 +14,33 @@ export type Database = {
   }
   public: {
     Tables: {
+      collections: {
+        Row: {
+          created_at: string
+          cross_file_edges: boolean
+          description: string | null
+          id: string
+          name: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          cross_file_edges?: boolean
+          description?: string | null
+          id?: string
+          name: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          cross_file_edges?: boolean
+          description?: string | null
+          id?: string
+          name?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
       edges: {
         Row: {
           created_at: string
@@ -21,8 +48,10 @@ export type Database = {
           id: string
           metadata: Json | null
           source_node_id: string
+          superseded_in: number | null
           target_node_id: string
           updated_at: string
+          version: number | null
           weight: number | null
         }
         Insert: {
@@ -31,8 +60,10 @@ export type Database = {
           id?: string
           metadata?: Json | null
           source_node_id: string
+          superseded_in?: number | null
           target_node_id: string
           updated_at?: string
+          version?: number | null
           weight?: number | null
         }
         Update: {
@@ -41,8 +72,10 @@ export type Database = {
           id?: string
           metadata?: Json | null
           source_node_id?: string
+          superseded_in?: number | null
           target_node_id?: string
           updated_at?: string
+          version?: number | null
           weight?: number | null
         }
         Relationships: [
@@ -62,69 +95,214 @@ export type Database = {
           },
         ]
       }
+      file_versions: {
+        Row: {
+          content_hash: string | null
+          created_at: string
+          file_id: string
+          file_path: string
+          file_size: number | null
+          id: string
+          version: number
+        }
+        Insert: {
+          content_hash?: string | null
+          created_at?: string
+          file_id: string
+          file_path: string
+          file_size?: number | null
+          id?: string
+          version: number
+        }
+        Update: {
+          content_hash?: string | null
+          created_at?: string
+          file_id?: string
+          file_path?: string
+          file_size?: number | null
+          id?: string
+          version?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "file_versions_file_id_fkey"
+            columns: ["file_id"]
+            isOneToOne: false
+            referencedRelation: "files"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       files: {
         Row: {
+          collection_id: string | null
+          content_hash: string | null
           created_at: string
+          cross_document_k: number | null
+          current_version: number
+          error_message: string | null
           file_path: string
           file_size: number | null
           file_type: string | null
           filename: string
           id: string
+          parent_file_id: string | null
           status: string
           updated_at: string
         }
         Insert: {
+          collection_id?: string | null
+          content_hash?: string | null
           created_at?: string
+          cross_document_k?: number | null
+          current_version?: number
+          error_message?: string | null
           file_path: string
           file_size?: number | null
           file_type?: string | null
           filename: string
           id?: string
+          parent_file_id?: string | null
           status?: string
           updated_at?: string
         }
         Update: {
+          collection_id?: string | null
+          content_hash?: string | null
           created_at?: string
+          cross_document_k?: number | null
+          current_version?: number
+          error_message?: string | null
           file_path?: string
           file_size?: number | null
           file_type?: string | null
           filename?: string
           id?: string
+          parent_file_id?: string | null
           status?: string
           updated_at?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "files_collection_id_fkey"
+            columns: ["collection_id"]
+            isOneToOne: false
+            referencedRelation: "collections"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "files_parent_file_id_fkey"
+            columns: ["parent_file_id"]
+            isOneToOne: false
+            referencedRelation: "files"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      ingestion_jobs: {
+        Row: {
+          attempts: number
+          created_at: string
+          error: string | null
+          file_id: string
+          id: string
+          locked_until: string | null
+          max_attempts: number
+          options: Json
+          progress: Json
+          stage: string
+          status: string
+          updated_at: string
+        }
+        Insert: {
+          attempts?: number
+          created_at?: string
+          error?: string | null
+          file_id: string
+          id?: string
+          locked_until?: string | null
+          max_attempts?: number
+          options?: Json
+          progress?: Json
+          stage?: string
+          status?: string
+          updated_at?: string
+        }
+        Update: {
+          attempts?: number
+          created_at?: string
+          error?: string | null
+          file_id?: string
+          id?: string
+          locked_until?: string | null
+          max_attempts?: number
+          options?: Json
+          progress?: Json
+          stage?: string
+          status?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ingestion_jobs_file_id_fkey"
+            columns: ["file_id"]
+            isOneToOne: false
+            referencedRelation: "files"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       nodes: {
         Row: {
           content: string
+          content_hash: string | null
           created_at: string
           embedding: string | null
+          embedding_model: string | null
+          embedding_provider: string | null
           file_id: string | null
           id: string
           metadata: Json | null
           node_type: string
+          search_vector: unknown | null
+          superseded_in: number | null
+          supersedes: string | null
           updated_at: string
+          version: number
         }
         Insert: {
           content: string
+          content_hash?: string | null
           created_at?: string
           embedding?: string | null
+          embedding_model?: string | null
+          embedding_provider?: string | null
           file_id?: string | null
           id?: string
           metadata?: Json | null
           node_type: string
+          search_vector?: never
+          superseded_in?: number | null
+          supersedes?: string | null
           updated_at?: string
+          version?: number
         }
         Update: {
           content?: string
+          content_hash?: string | null
           created_at?: string
           embedding?: string | null
+          embedding_model?: string | null
+          embedding_provider?: string | null
           file_id?: string | null
           id?: string
           metadata?: Json | null
           node_type?: string
+          search_vector?: never
+          superseded_in?: number | null
+          supersedes?: string | null
           updated_at?: string
+          version?: number
         }
         Relationships: [
           {
@@ -134,6 +312,13 @@ export type Database = {
             referencedRelation: "files"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "nodes_supersedes_fkey"
+            columns: ["supersedes"]
+            isOneToOne: false
+            referencedRelation: "nodes"
+            referencedColumns: ["id"]
+          },
         ]
       }
       queries: {
@@ -168,7 +353,158 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      claim_ingestion_job: {
+        Args: { p_job_id?: string; p_lease_seconds?: number }
+        Returns: {
+          attempts: number
+          created_at: string
+          error: string | null
+          file_id: string
+          id: string
+          locked_until: string | null
+          max_attempts: number
+          options: Json
+          progress: Json
+          stage: string
+          status: string
+          updated_at: string
+        }[]
+      }
+      collection_file_ids: {
+        Args: { p_collection_id: string }
+        Returns: string[]
+      }
+      create_cross_document_edges: {
+        Args: { p_file_id: string; p_force?: boolean; p_k?: number }
+        Returns: number
+      }
+      create_file_version: {
+        Args: {
+          p_content_hash?: string
+          p_file_id: string
+          p_file_path: string
+          p_file_size?: number
+        }
+        Returns: number
+      }
+      create_semantic_edges: {
+        Args: { p_file_id: string; p_k?: number }
+        Returns: number
+      }
+      diff_file_versions: {
+        Args: { p_file_id: string; p_from: number; p_to: number }
+        Returns: {
+          change: string
+          content: string
+          metadata: Json
+          node_id: string
+          node_type: string
+          previous_content: string
+          previous_node_id: string
+        }[]
+      }
+      file_graph_stats: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          edge_count: number
+          file_id: string
+          node_count: number
+        }[]
+      }
+      graph_neighbours: {
+        Args: {
+          p_file_id?: string
+          p_max_neighbours: number
+          p_node_ids: string[]
+          p_version?: number
+        }
+        Returns: {
+          content: string
+          edge_type: string
+          file_id: string
+          metadata: Json
+          node_type: string
+          source_node_id: string
+          superseded_in: number
+          target_node_id: string
+          version: number
+          weight: number
+        }[]
+      }
+      keyword_match_nodes: {
+        Args: {
+          p_collection_id?: string
+          p_file_ids?: string[]
+          p_match_count: number
+          p_node_types?: string[]
+          p_query: string
+          p_version?: number
+        }
+        Returns: {
+          content: string
+          file_id: string
+          id: string
+          metadata: Json
+          node_type: string
+          score: number
+          superseded_in: number
+          version: number
+        }[]
+      }
+      match_nodes: {
+        Args: {
+          p_collection_id?: string
+          p_embedding_model: string
+          p_embedding_provider: string
+          p_file_ids?: string[]
+          p_match_count: number
+          p_node_types?: string[]
+          p_query_embedding: string
+          p_version?: number
+        }
+        Returns: {
+          content: string
+          file_id: string
+          id: string
+          metadata: Json
+          node_type: string
+          similarity: number
+          superseded_in: number
+          version: number
+        }[]
+      }
+      reset_collection_edges: {
+        Args: { p_collection_id: string }
+        Returns: {
+          file_id: string
+          file_path: string
+        }[]
+      }
+      reset_version_edges: {
+        Args: { p_file_id: string; p_version: number }
+        Returns: undefined
+      }
+      schedule_ingestion_sweep: {
+        Args: Record<PropertyKey, never>
+        Returns: boolean
+      }
+      scope_embedding_spaces: {
+        Args: {
+          p_collection_id?: string
+          p_file_ids?: string[]
+          p_version?: number
+        }
+        Returns: {
+          embedding_model: string
+          embedding_provider: string
+          file_id: string
+          node_count: number
+        }[]
+      }
+      update_node_metadata: {
+        Args: { p_nodes: Json }
+        Returns: number
+      }
     }
     Enums: {
       [_ in never]: never
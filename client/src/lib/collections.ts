@@ -0,0 +1,27 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+
+export type Collection = Tables<"collections">;
+
+// Neighbours per chunk when a collection links its files; matches process-file
+export const CROSS_FILE_NEIGHBOURS = 5;
+
+/* Every collection by name; shared by the library and the search scope picker under the "collections" query key */
+export async function fetchCollections(): Promise<Collection[]> {
+  const { data, error } = await supabase.from("collections").select("*").order("name");
+  if (error) throw error;
+  return data;
+}
+
+/*
+ * Rebuild a collection's cross-file edges after its members or settings changed.
+ * process-file drops the old edges right away and relinks each file in a background
+ * job; resolves to the number of files queued.
+ */
+export async function refreshCollectionEdges(collectionId: string): Promise<number> {
+  const { data, error } = await supabase.functions.invoke("process-file", {
+    body: { collectionId, relink: true },
+  });
+  if (error) throw error;
+  return data.jobIds?.length ?? 0;
+}
@@ -0,0 +1,103 @@
+// Extensions process-file knows how to extract; anything else found in a dropped folder is skipped
+export const SUPPORTED_EXTENSIONS = [
+  ".txt", ".csv", ".json", ".pdf", ".docx", ".md", ".markdown", ".html", ".htm",
+  ".ts", ".tsx", ".mts", ".cts", ".js", ".jsx", ".mjs", ".cjs", ".py", ".zip",
+];
+
+// process-file refuses these with the same message
+export const LEGACY_DOC_MESSAGE = "Legacy .doc files are not supported; save the document as .docx";
+
+export const isLegacyDoc = (file: File) => /\.doc$/i.test(file.name) || file.type === "application/msword";
+
+export interface SelectedFile {
+  file: File;
+  // Path relative to the dropped/selected folder, or just the file name
+  path: string;
+}
+
+export const isSupportedFile = (file: File) => {
+  const name = file.name.toLowerCase();
+  return !name.startsWith(".") && !isLegacyDoc(file) && SUPPORTED_EXTENSIONS.some((extension) => name.endsWith(extension));
+};
+
+// Formats process-file splits into rows, values or symbols instead of chunking their text
+const UNCHUNKED_EXTENSIONS = [".csv", ".json", ".ts", ".tsx", ".mts", ".cts", ".js", ".jsx", ".mjs", ".cjs", ".py"];
+
+/* Whether the chunking options apply to this file (archives may contain text files) */
+export const usesChunking = (file: File) => {
+  const name = file.name.toLowerCase();
+  if (file.type === "text/csv" || file.type === "application/json") return false;
+  return !UNCHUNKED_EXTENSIONS.some((extension) => name.endsWith(extension));
+};
+
+/* Files chosen through an <input>, including ones picked with webkitdirectory */
+export const fromFileList = (files: FileList | null): SelectedFile[] =>
+  Array.from(files ?? []).map((file) => ({ file, path: file.webkitRelativePath || file.name }));
+
+const readEntries = (reader: FileSystemDirectoryReader) =>
+  new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+
+const entryFile = (entry: FileSystemFileEntry) =>
+  new Promise<File>((resolve, reject) => entry.file(resolve, reject));
+
+async function walkEntry(entry: FileSystemEntry, out: SelectedFile[]) {
+  if (entry.isFile) {
+    const file = await entryFile(entry as FileSystemFileEntry);
+    out.push({ file, path: entry.fullPath.replace(/^\//, "") });
+    return;
+  }
+
+  if (entry.isDirectory) {
+    const reader = (entry as FileSystemDirectoryEntry).createReader();
+    // readEntries returns directory contents in batches until it yields an empty one
+    for (let batch = await readEntries(reader); batch.length > 0; batch = await readEntries(reader)) {
+      for (const child of batch) {
+        await walkEntry(child, out);
+      }
+    }
+  }
+}
+
+/* Everything dropped on the page, descending into directories */
+export async function fromDataTransfer(dataTransfer: DataTransfer): Promise<SelectedFile[]> {
+  // Entries must be taken synchronously; the DataTransfer is emptied after the event
+  const entries = Array.from(dataTransfer.items)
+    .map((item) => item.webkitGetAsEntry?.())
+    .filter((entry): entry is FileSystemEntry => Boolean(entry));
+
+  if (entries.length === 0) {
+    return fromFileList(dataTransfer.files);
+  }
+
+  const files: SelectedFile[] = [];
+  for (const entry of entries) {
+    await walkEntry(entry, files);
+  }
+  return files;
+}
+
+/* Hex SHA-256 of the file's bytes; matches files.content_hash written by process-file */
+export async function sha256Hex(file: Blob): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", await file.arrayBuffer());
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, "0")).join("");
+}
+
+/* Run worker over items with at most `limit` in flight, preserving result order */
+export async function runWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  worker: (item: T) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const lane = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await worker(items[index]);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, lane));
+  return results;
+}
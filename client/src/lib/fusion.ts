@@ -0,0 +1,19 @@
+// How hybrid-search combines the vector, keyword and graph scores
+export type FusionMethod = "weighted_sum" | "rrf" | "min_max_normalized" | "z_score";
+
+// Echoed back by hybrid-search; `k` is only set for rrf
+export type Fusion = { method: FusionMethod; k?: number };
+
+export const DEFAULT_RRF_K = 60;
+
+export const FUSION_METHODS: { value: FusionMethod; label: string; description: string }[] = [
+  { value: "weighted_sum", label: "Weighted sum", description: "Add the raw scores, each times its weight" },
+  { value: "rrf", label: "Reciprocal rank fusion", description: "Sum weight / (k + rank) over the rankings" },
+  { value: "min_max_normalized", label: "Min-max normalized", description: "Rescale each score to 0–1 before weighting" },
+  { value: "z_score", label: "Z-score", description: "Standardize each score before weighting" },
+];
+
+export const fusionLabel = (fusion: Fusion) => {
+  const label = FUSION_METHODS.find((method) => method.value === fusion.method)?.label ?? fusion.method;
+  return fusion.method === "rrf" && fusion.k !== undefined ? `${label} (k=${fusion.k})` : label;
+};
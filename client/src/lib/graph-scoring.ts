@@ -0,0 +1,14 @@
+// Where hybrid-search's graph score comes from
+export type GraphScoring = "path" | "pagerank";
+
+export const GRAPH_SCORING: { value: GraphScoring; label: string; description: string }[] = [
+  { value: "path", label: "Best path", description: "Edge weights along the strongest route from a vector hit" },
+  {
+    value: "pagerank",
+    label: "Personalized PageRank",
+    description: "Random-walk probability seeded from the vector hits; favours nodes tied to several of them",
+  },
+];
+
+export const graphScoringLabel = (scoring: GraphScoring) =>
+  GRAPH_SCORING.find((option) => option.value === scoring)?.label ?? scoring;
@@ -0,0 +1,19 @@
+// What hybrid-search looks through: every file, a collection or a hand-picked set
+export type SearchScope =
+  | { kind: "all" }
+  | { kind: "collection"; collectionId: string }
+  | { kind: "files"; fileIds: string[] };
+
+/* The part of the hybrid-search request body that selects the scope */
+export const scopeRequestBody = (scope: SearchScope) => {
+  switch (scope.kind) {
+    case "all":
+      return { scope: "all" as const };
+    case "collection":
+      return { collectionId: scope.collectionId };
+    case "files":
+      return { fileIds: scope.fileIds };
+  }
+};
+
+export const isEmptyScope = (scope: SearchScope) => scope.kind === "files" && scope.fileIds.length === 0;
@@ -0,0 +1,457 @@
+import { useState } from "react";
+import { Link, useNavigate } from "react-router-dom";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import {
+  ArrowLeft,
+  FileText,
+  FolderArchive,
+  GitCompare,
+  Library,
+  Loader2,
+  Pencil,
+  RefreshCw,
+  Search,
+  Trash2,
+} from "lucide-react";
+import CollectionsPanel from "@/components/CollectionsPanel";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import VersionDiff from "@/components/VersionDiff";
+import { useToast } from "@/hooks/use-toast";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { fetchCollections, refreshCollectionEdges } from "@/lib/collections";
+
+type FileRow = Tables<"files">;
+
+type GraphStats = { nodes: number; edges: number };
+
+// Keep polling while something is still being ingested
+const PROCESSING_REFRESH_MS = 5000;
+
+// Select value for files outside any collection
+const NO_COLLECTION = "none";
+
+// storage.remove accepts at most this many paths per call
+const STORAGE_REMOVE_BATCH = 1000;
+
+const STATUS_BADGES: Record<string, string> = {
+  completed: "bg-accent/20 text-accent border-accent/40",
+  processing: "bg-primary/20 text-primary border-primary/40",
+  failed: "bg-destructive/20 text-destructive border-destructive/40",
+};
+
+const formatSize = (bytes: number | null) => {
+  if (bytes === null) return "—";
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+};
+
+const fileTypeLabel = (file: FileRow) =>
+  file.filename.includes(".") ? file.filename.split(".").pop()!.toUpperCase() : file.file_type || "—";
+
+const fetchFiles = async (): Promise<FileRow[]> => {
+  const { data, error } = await supabase.from("files").select("*").order("created_at", { ascending: false });
+  if (error) throw error;
+  return data;
+};
+
+const fetchGraphStats = async (): Promise<Map<string, GraphStats>> => {
+  const { data, error } = await supabase.rpc("file_graph_stats");
+  if (error) throw error;
+  return new Map(data.map((row) => [row.file_id, { nodes: row.node_count, edges: row.edge_count }]));
+};
+
+/* Remove every stored object of a file: all of its versions and, for archives, the unpacked files */
+const removeStoredObjects = async (file: FileRow) => {
+  const { data: children, error: childrenError } = await supabase
+    .from("files")
+    .select("id")
+    .eq("parent_file_id", file.id);
+  if (childrenError) throw childrenError;
+
+  const fileIds = [file.id, ...children.map((child) => child.id)];
+  const { data: versions, error: versionsError } = await supabase
+    .from("file_versions")
+    .select("file_path")
+    .in("file_id", fileIds);
+  if (versionsError) throw versionsError;
+
+  const paths = [...new Set([file.file_path, ...versions.map((version) => version.file_path)])];
+  for (let i = 0; i < paths.length; i += STORAGE_REMOVE_BATCH) {
+    const { error } = await supabase.storage.from("uploads").remove(paths.slice(i, i + STORAGE_REMOVE_BATCH));
+    if (error) throw error;
+  }
+};
+
+const Files = () => {
+  const [filter, setFilter] = useState("");
+  const [renaming, setRenaming] = useState<FileRow | null>(null);
+  const [newName, setNewName] = useState("");
+  const [deleting, setDeleting] = useState<FileRow | null>(null);
+  const [comparing, setComparing] = useState<FileRow | null>(null);
+  const [busyFileId, setBusyFileId] = useState<string | null>(null);
+  const [collectionFilter, setCollectionFilter] = useState<string | null>(null);
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const { data: files = [], isLoading, error } = useQuery({
+    queryKey: ["files"],
+    queryFn: fetchFiles,
+    refetchInterval: (query) =>
+      query.state.data?.some((file) => file.status === "processing") ? PROCESSING_REFRESH_MS : false,
+  });
+
+  const { data: stats } = useQuery({
+    queryKey: ["files", "graph-stats"],
+    queryFn: fetchGraphStats,
+    refetchInterval: files.some((file) => file.status === "processing") ? PROCESSING_REFRESH_MS : false,
+  });
+
+  const { data: collections = [] } = useQuery({
+    queryKey: ["collections"],
+    queryFn: fetchCollections,
+  });
+
+  const refresh = () => queryClient.invalidateQueries({ queryKey: ["files"] });
+
+  const runAction = async (file: FileRow, action: () => Promise<void>, failure: string) => {
+    setBusyFileId(file.id);
+    try {
+      await action();
+    } catch (err) {
+      console.error(failure, err);
+      toast({
+        title: "Error",
+        description: err instanceof Error ? err.message : failure,
+        variant: "destructive",
+      });
+    } finally {
+      setBusyFileId(null);
+      refresh();
+    }
+  };
+
+  const handleReprocess = (file: FileRow) =>
+    runAction(file, async () => {
+      const { error: invokeError } = await supabase.functions.invoke("process-file", {
+        body: { fileId: file.id, reprocess: true },
+      });
+      if (invokeError) throw invokeError;
+      toast({ title: "Re-processing", description: `${file.filename} was queued for processing` });
+    }, "Failed to re-process file");
+
+  const handleRename = () => {
+    const file = renaming;
+    const filename = newName.trim();
+    setRenaming(null);
+    if (!file || !filename || filename === file.filename) return;
+
+    runAction(file, async () => {
+      const { error: updateError } = await supabase.from("files").update({ filename }).eq("id", file.id);
+      if (updateError) throw updateError;
+    }, "Failed to rename file");
+  };
+
+  const handleDelete = () => {
+    const file = deleting;
+    setDeleting(null);
+    if (!file) return;
+
+    runAction(file, async () => {
+      await removeStoredObjects(file);
+      // Nodes, edges, versions, jobs and unpacked archive files cascade with the row
+      const { error: deleteError } = await supabase.from("files").delete().eq("id", file.id);
+      if (deleteError) throw deleteError;
+      toast({ title: "Deleted", description: `${file.filename} and its graph were removed` });
+    }, "Failed to delete file");
+  };
+
+  const handleMove = (file: FileRow, collectionId: string | null) => {
+    const previousId = file.collection_id;
+    if (collectionId === previousId) return;
+
+    runAction(file, async () => {
+      const { error: updateError } = await supabase
+        .from("files")
+        .update({ collection_id: collectionId })
+        .eq("id", file.id);
+      if (updateError) throw updateError;
+
+      // Both collections' cross-file edges change when a file moves between them
+      const linked = collections.filter(
+        (collection) => collection.cross_file_edges && [previousId, collectionId].includes(collection.id)
+      );
+      for (const collection of linked) {
+        await refreshCollectionEdges(collection.id);
+      }
+    }, "Failed to move file");
+  };
+
+  // Unpacked archive entries belong to the archive's collection
+  const filesById = new Map(files.map((file) => [file.id, file]));
+  const collectionOf = (file: FileRow) =>
+    file.parent_file_id ? filesById.get(file.parent_file_id)?.collection_id ?? null : file.collection_id;
+
+  const fileCounts = new Map<string, number>();
+  for (const file of files) {
+    if (file.collection_id) fileCounts.set(file.collection_id, (fileCounts.get(file.collection_id) ?? 0) + 1);
+  }
+
+  const visibleFiles = files.filter(
+    (file) =>
+      file.filename.toLowerCase().includes(filter.trim().toLowerCase()) &&
+      (!collectionFilter || collectionOf(file) === collectionFilter)
+  );
+
+  return (
+    <div className="min-h-screen p-8">
+      <div className="max-w-7xl mx-auto space-y-8">
+        <div className="flex items-center justify-between gap-4">
+          <div className="flex items-center gap-3">
+            <Library className="w-8 h-8 text-primary" />
+            <h1 className="text-4xl font-bold gradient-text">File Library</h1>
+          </div>
+          <Button variant="secondary" asChild>
+            <Link to="/">
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              Back to search
+            </Link>
+          </Button>
+        </div>
+
+        <CollectionsPanel fileCounts={fileCounts} selectedId={collectionFilter} onSelect={setCollectionFilter} />
+
+        <Card className="p-6 card-shadow border-border/50 bg-card/50 backdrop-blur space-y-4">
+          <div className="flex items-center justify-between gap-4">
+            <p className="text-sm text-muted-foreground">
+              {collectionFilter
+                ? `${visibleFiles.length} file${visibleFiles.length === 1 ? "" : "s"} in ${
+                    collections.find((collection) => collection.id === collectionFilter)?.name ?? "this collection"
+                  }`
+                : `${files.length} file${files.length === 1 ? "" : "s"} uploaded`}
+            </p>
+            <Input
+              value={filter}
+              onChange={(e) => setFilter(e.target.value)}
+              placeholder="Filter by name..."
+              className="max-w-xs bg-secondary border-border"
+            />
+          </div>
+
+          {isLoading ? (
+            <div className="flex justify-center py-12">
+              <Loader2 className="w-6 h-6 text-primary animate-spin" />
+            </div>
+          ) : error ? (
+            <p className="text-sm text-destructive">{(error as Error).message}</p>
+          ) : visibleFiles.length === 0 ? (
+            <p className="text-sm text-muted-foreground py-8 text-center">
+              {files.length === 0 ? "No files uploaded yet." : "No files match this filter."}
+            </p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Type</TableHead>
+                  <TableHead className="text-right">Size</TableHead>
+                  <TableHead>Collection</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Nodes</TableHead>
+                  <TableHead className="text-right">Edges</TableHead>
+                  <TableHead>Uploaded</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {visibleFiles.map((file) => {
+                  const fileStats = stats?.get(file.id);
+                  const isBusy = busyFileId === file.id;
+                  const Icon = /\.zip$/i.test(file.filename) ? FolderArchive : FileText;
+
+                  return (
+                    <TableRow key={file.id}>
+                      <TableCell>
+                        <div className="flex items-center gap-2 min-w-0">
+                          <Icon className="w-4 h-4 shrink-0 text-primary" />
+                          <span className="font-medium truncate max-w-xs">{file.filename}</span>
+                          {file.current_version > 1 && <Badge variant="outline">v{file.current_version}</Badge>}
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-muted-foreground">{fileTypeLabel(file)}</TableCell>
+                      <TableCell className="text-right font-mono text-sm">{formatSize(file.file_size)}</TableCell>
+                      <TableCell>
+                        {file.parent_file_id ? (
+                          <span className="text-sm text-muted-foreground">
+                            {collections.find((collection) => collection.id === collectionOf(file))?.name ?? "—"}
+                          </span>
+                        ) : (
+                          <Select
+                            value={file.collection_id ?? NO_COLLECTION}
+                            onValueChange={(value) => handleMove(file, value === NO_COLLECTION ? null : value)}
+                            disabled={isBusy}
+                          >
+                            <SelectTrigger className="h-8 w-40 bg-secondary border-border">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value={NO_COLLECTION}>No collection</SelectItem>
+                              {collections.map((collection) => (
+                                <SelectItem key={collection.id} value={collection.id}>
+                                  {collection.name}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        {file.error_message ? (
+                          <Tooltip>
+                            <TooltipTrigger asChild>
+                              <Badge variant="outline" className={STATUS_BADGES[file.status]}>
+                                {file.status}
+                              </Badge>
+                            </TooltipTrigger>
+                            <TooltipContent className="max-w-sm">{file.error_message}</TooltipContent>
+                          </Tooltip>
+                        ) : (
+                          <Badge variant="outline" className={STATUS_BADGES[file.status]}>
+                            {file.status}
+                          </Badge>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right font-mono text-sm">{fileStats?.nodes ?? 0}</TableCell>
+                      <TableCell className="text-right font-mono text-sm">{fileStats?.edges ?? 0}</TableCell>
+                      <TableCell className="text-muted-foreground text-sm">
+                        {new Date(file.created_at).toLocaleString()}
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex items-center justify-end gap-1">
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            aria-label="Open in search"
+                            disabled={file.status !== "completed"}
+                            onClick={() => navigate(`/?file=${file.id}`)}
+                          >
+                            <Search className="w-4 h-4" />
+                          </Button>
+                          {file.current_version > 1 && (
+                            <Button variant="ghost" size="icon" aria-label="Compare versions" onClick={() => setComparing(file)}>
+                              <GitCompare className="w-4 h-4" />
+                            </Button>
+                          )}
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            aria-label="Re-process"
+                            disabled={isBusy || file.status === "processing"}
+                            onClick={() => handleReprocess(file)}
+                          >
+                            <RefreshCw className={`w-4 h-4 ${isBusy ? "animate-spin" : ""}`} />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            aria-label="Rename"
+                            disabled={isBusy}
+                            onClick={() => {
+                              setRenaming(file);
+                              setNewName(file.filename);
+                            }}
+                          >
+                            <Pencil className="w-4 h-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            aria-label="Delete"
+                            disabled={isBusy}
+                            onClick={() => setDeleting(file)}
+                          >
+                            <Trash2 className="w-4 h-4 text-destructive" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </Card>
+      </div>
+
+      <Dialog open={renaming !== null} onOpenChange={(open) => !open && setRenaming(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Rename file</DialogTitle>
+          </DialogHeader>
+          <Input
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            onKeyDown={(e) => e.key === "Enter" && handleRename()}
+            className="bg-secondary border-border"
+            autoFocus
+          />
+          <DialogFooter>
+            <Button variant="ghost" onClick={() => setRenaming(null)}>
+              Cancel
+            </Button>
+            <Button onClick={handleRename} disabled={!newName.trim()}>
+              Rename
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={deleting !== null} onOpenChange={(open) => !open && setDeleting(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {deleting?.filename}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              This removes the uploaded file, every version of it and all of its nodes and edges.
+              Files unpacked from an archive are deleted with it.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete} className="bg-destructive text-destructive-foreground hover:bg-destructive/90">
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <Dialog open={comparing !== null} onOpenChange={(open) => !open && setComparing(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Changes in {comparing?.filename}</DialogTitle>
+          </DialogHeader>
+          {comparing && <VersionDiff fileId={comparing.id} />}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default Files;
@@ -1,5 +1,7 @@
 import { useState } from "react";
-import { Upload, Search, Database, GitBranch } from "lucide-react";
+import { Link, useSearchParams } from "react-router-dom";
+import { Upload, Search, Database, GitBranch, Library } from "lucide-react";
+import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
 import FileUpload from "@/components/FileUpload";
 import QueryInterface from "@/components/QueryInterface";
@@ -7,7 +9,10 @@ import ResultsDisplay from "@/components/ResultsDisplay";
 
 const Index = () => {
   const [uploadedFile, setUploadedFile] = useState<File | null>(null);
-  const [fileId, setFileId] = useState<string | null>(null);
+  // The searched file lives in the URL so the file library can open it
+  const [searchParams, setSearchParams] = useSearchParams();
+  const fileId = searchParams.get("file");
+  const setFileId = (id: string | null) => setSearchParams(id ? { file: id } : {});
   const [searchResults, setSearchResults] = useState<any>(null);
 
   return (
@@ -47,6 +52,12 @@ const Index = () => {
             <div className="flex items-center gap-3 mb-6">
               <Upload className="w-6 h-6 text-primary" />
               <h2 className="text-2xl font-semibold">Upload Data</h2>
+              <Button variant="ghost" size="sm" className="ml-auto" asChild>
+                <Link to="/files">
+                  <Library className="w-4 h-4 mr-2" />
+                  File library
+                </Link>
+              </Button>
             </div>
             <FileUpload 
               onFileSelect={setUploadedFile}
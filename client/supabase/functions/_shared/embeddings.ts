@@ -0,0 +1,221 @@
+// ---------------------------
+// Embedding providers shared by process-file and hybrid-search.
+// Selected with EMBEDDING_PROVIDER ("local" | "onnx" | "openai"); every node
+// records the provider and model that produced its vector so a query embedded
+// with a different provider can be rejected instead of silently mis-ranked.
+// ---------------------------
+
+export interface EmbeddingProvider {
+  name: string;
+  model: string;
+  // True when a text's vector depends on the corpus it was embedded with, so
+  // vectors can only be reused between identical documents
+  usesCorpus: boolean;
+  // `corpus` is the full document set `texts` belong to, for providers that
+  // weight features by document frequency; defaults to `texts`
+  embedDocuments(texts: string[], corpus?: string[]): Promise<number[][]>;
+  embedQuery(text: string): Promise<number[]>;
+}
+
+export function getEmbeddingProvider(): EmbeddingProvider {
+  const provider = (Deno.env.get("EMBEDDING_PROVIDER") ?? "local").toLowerCase();
+
+  switch (provider) {
+    case "local":
+      return localHashingProvider;
+    case "onnx":
+      return createOnnxProvider(Deno.env.get("EMBEDDING_MODEL") ?? "Xenova/all-mpnet-base-v2");
+    case "openai":
+      return createOpenAiProvider(
+        Deno.env.get("EMBEDDING_API_URL") ?? "https://api.openai.com/v1",
+        Deno.env.get("EMBEDDING_API_KEY"),
+        Deno.env.get("EMBEDDING_MODEL") ?? "text-embedding-3-small"
+      );
+    default:
+      throw new Error(`Unknown EMBEDDING_PROVIDER "${provider}" (expected local, onnx or openai)`);
+  }
+}
+
+// ---------------------------
+// Local hashing provider (no model download, no network)
+// Hashed bag-of-words, word bigrams and character trigrams with sublinear TF,
+// IDF computed over the file's chunks (the corpus), projected to 768
+// dimensions with signed feature hashing. Queries use TF only since chunk
+// vectors already carry the IDF weights.
+// Each file has its own IDF, so cosine scores from different files are only
+// roughly comparable: a term rare in one file and common in another weighs
+// more in the first. Multi-file searches inherit that bias.
+// ---------------------------
+const localHashingProvider: EmbeddingProvider = {
+  name: "local",
+  model: "hashed-tfidf-v1",
+  usesCorpus: true,
+  embedDocuments(texts, corpus = texts) {
+    const idf = buildIdf(corpus);
+    return Promise.resolve(texts.map((text) => localEmbedding(text, idf)));
+  },
+  embedQuery(text) {
+    return Promise.resolve(localEmbedding(text));
+  },
+};
+
+// ---------------------------
+// Local ONNX provider: a sentence-transformer run in-process by transformers.js.
+// The model must produce EMBEDDING_DIM-dimensional vectors.
+// ---------------------------
+function createOnnxProvider(model: string): EmbeddingProvider {
+  let extractor: Promise<(texts: string[], options: Record<string, unknown>) => Promise<{ tolist(): number[][] }>> | undefined;
+
+  const embed = async (texts: string[]) => {
+    extractor ??= import("npm:@huggingface/transformers@3").then(({ pipeline }) =>
+      pipeline("feature-extraction", model) as unknown as Promise<
+        (texts: string[], options: Record<string, unknown>) => Promise<{ tolist(): number[][] }>
+      >
+    );
+
+    const output = await (await extractor)(texts, { pooling: "mean", normalize: true });
+    return checkDimensions(output.tolist(), model);
+  };
+
+  return {
+    name: "onnx",
+    model,
+    usesCorpus: false,
+    embedDocuments: embed,
+    embedQuery: async (text) => (await embed([text]))[0],
+  };
+}
+
+// ---------------------------
+// OpenAI-compatible HTTP provider (OpenAI, Azure proxies, Ollama, vLLM, ...)
+// ---------------------------
+const OPENAI_BATCH_SIZE = 96;
+
+function createOpenAiProvider(baseUrl: string, apiKey: string | undefined, model: string): EmbeddingProvider {
+  const embed = async (texts: string[]) => {
+    const vectors: number[][] = [];
+
+    for (let i = 0; i < texts.length; i += OPENAI_BATCH_SIZE) {
+      const response = await fetch(`${baseUrl.replace(/\/$/, "")}/embeddings`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+        },
+        body: JSON.stringify({
+          model,
+          input: texts.slice(i, i + OPENAI_BATCH_SIZE),
+          dimensions: EMBEDDING_DIM,
+        }),
+      });
+
+      if (!response.ok) {
+        throw new Error(`Embedding request failed (${response.status}): ${await response.text()}`);
+      }
+
+      const { data } = await response.json() as { data: { index: number; embedding: number[] }[] };
+      data.sort((a, b) => a.index - b.index).forEach((item) => vectors.push(item.embedding));
+    }
+
+    return checkDimensions(vectors, model);
+  };
+
+  return {
+    name: "openai",
+    model,
+    usesCorpus: false,
+    embedDocuments: embed,
+    embedQuery: async (text) => (await embed([text]))[0],
+  };
+}
+
+function checkDimensions(vectors: number[][], model: string): number[][] {
+  const wrong = vectors.find((vector) => vector.length !== EMBEDDING_DIM);
+  if (wrong) {
+    throw new Error(`${model} returned ${wrong.length}-dimensional vectors; nodes.embedding expects ${EMBEDDING_DIM}`);
+  }
+  return vectors;
+}
+
+export const EMBEDDING_DIM = 768;
+
+const FEATURE_WEIGHTS = { word: 1, bigram: 0.5, trigram: 0.25 };
+
+const STOPWORDS = new Set([
+  "a", "an", "and", "are", "as", "at", "be", "but", "by", "for", "from", "has", "have",
+  "he", "her", "his", "i", "in", "is", "it", "its", "of", "on", "or", "our", "she",
+  "so", "than", "that", "the", "their", "them", "then", "there", "these", "they",
+  "this", "to", "was", "we", "were", "what", "which", "who", "will", "with", "you",
+]);
+
+function localEmbedding(text: string, idf?: Map<string, number>): number[] {
+  const vec: number[] = new Array(EMBEDDING_DIM).fill(0);
+
+  for (const [feature, weight] of textFeatures(text)) {
+    const hash = fnv1a(feature, 2166136261);
+    const sign = fnv1a(feature, 0x9e3779b9) & 1 ? 1 : -1;
+    vec[hash % EMBEDDING_DIM] += sign * weight * (idf?.get(feature) ?? 1);
+  }
+
+  let norm = 0;
+  for (let i = 0; i < EMBEDDING_DIM; i++) norm += vec[i] * vec[i];
+  norm = Math.sqrt(norm) || 1;
+  for (let i = 0; i < EMBEDDING_DIM; i++) vec[i] = vec[i] / norm;
+
+  return vec;
+}
+
+// Smoothed inverse document frequency of every feature across `texts`
+function buildIdf(texts: string[]): Map<string, number> {
+  const documentFrequency = new Map<string, number>();
+
+  for (const text of texts) {
+    for (const feature of textFeatures(text).keys()) {
+      documentFrequency.set(feature, (documentFrequency.get(feature) ?? 0) + 1);
+    }
+  }
+
+  const idf = new Map<string, number>();
+  for (const [feature, df] of documentFrequency) {
+    idf.set(feature, Math.log((1 + texts.length) / (1 + df)) + 1);
+  }
+  return idf;
+}
+
+// Feature -> weighted sublinear term frequency
+function textFeatures(text: string): Map<string, number> {
+  const counts = new Map<string, number>();
+  const add = (feature: string) => counts.set(feature, (counts.get(feature) ?? 0) + 1);
+
+  const words = (
+    text
+      .toLowerCase()
+      .normalize("NFKD")
+      .replace(/[\u0300-\u036f]/g, "")
+      .match(/[\p{L}\p{N}]+/gu) ?? []
+  ).filter((word) => !STOPWORDS.has(word));
+
+  words.forEach((word, i) => {
+    add(`w:${word}`);
+    if (i > 0) add(`b:${words[i - 1]}_${word}`);
+
+    const padded = `#${word}#`;
+    for (let j = 0; j + 3 <= padded.length; j++) add(`c:${padded.slice(j, j + 3)}`);
+  });
+
+  const features = new Map<string, number>();
+  for (const [feature, count] of counts) {
+    const kind = feature[0] === "w" ? "word" : feature[0] === "b" ? "bigram" : "trigram";
+    features.set(feature, FEATURE_WEIGHTS[kind] * (1 + Math.log(count)));
+  }
+  return features;
+}
+
+function fnv1a(text: string, seed: number): number {
+  let hash = seed >>> 0;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 16777619) >>> 0;
+  }
+  return hash;
+}
@@ -0,0 +1,104 @@
+export type FusionMethod = "weighted_sum" | "rrf" | "min_max_normalized" | "z_score";
+
+export type FusionOptions = {
+  method: FusionMethod;
+  // RRF damping constant; larger values flatten the gap between ranks
+  k: number;
+};
+
+export type FusionSignal = "vector" | "keyword" | "graph";
+
+// Scores per signal for the nodes a signal returned; a missing entry means the
+// signal did not return the node
+export type FusionInput = {
+  nodeId: string;
+  scores: Partial<Record<FusionSignal, number>>;
+};
+
+export const FUSION_METHODS: FusionMethod[] = ["weighted_sum", "rrf", "min_max_normalized", "z_score"];
+
+export const DEFAULT_FUSION: FusionOptions = {
+  method: "weighted_sum",
+  k: 60,
+};
+
+const SIGNALS: FusionSignal[] = ["vector", "keyword", "graph"];
+
+/* Validate the request's `fusion` and `rrfK` */
+export function parseFusionOptions(method: unknown, k: unknown): FusionOptions {
+  if (method !== undefined && !FUSION_METHODS.includes(method as FusionMethod)) {
+    throw new Error(`Unknown fusion "${method}"; use one of ${FUSION_METHODS.join(", ")}`);
+  }
+
+  return {
+    method: (method as FusionMethod | undefined) ?? DEFAULT_FUSION.method,
+    k: typeof k === "number" && Number.isFinite(k) && k > 0 ? k : DEFAULT_FUSION.k,
+  };
+}
+
+// ---- Combine the signals into one score per node ----
+// weighted_sum uses the raw scores. min_max_normalized and z_score rescale each
+// signal over the nodes it returned before weighting, so cosine similarity and
+// edge weights compete on the same footing. rrf ignores scores and sums
+// weight / (k + rank) over the signals that ranked the node.
+export function fuseScores(
+  inputs: FusionInput[],
+  weights: Record<FusionSignal, number>,
+  options: FusionOptions
+): Map<string, number> {
+  const fused = new Map<string, number>(inputs.map((input) => [input.nodeId, 0]));
+
+  for (const signal of SIGNALS) {
+    const scored = inputs.filter((input) => input.scores[signal] !== undefined);
+    const { scores, missing } = rescale(
+      scored.map((input) => ({ nodeId: input.nodeId, score: input.scores[signal] as number })),
+      options
+    );
+
+    for (const input of inputs) {
+      const contribution = scores.get(input.nodeId) ?? missing;
+      fused.set(input.nodeId, (fused.get(input.nodeId) ?? 0) + contribution * weights[signal]);
+    }
+  }
+
+  return fused;
+}
+
+// `missing` is what a node the signal did not return contributes
+function rescale(
+  scored: { nodeId: string; score: number }[],
+  options: FusionOptions
+): { scores: Map<string, number>; missing: number } {
+  const values = scored.map((entry) => entry.score);
+
+  switch (options.method) {
+    case "weighted_sum":
+      return { scores: new Map(scored.map((entry) => [entry.nodeId, entry.score])), missing: 0 };
+
+    case "rrf": {
+      const ranked = [...scored].sort((a, b) => b.score - a.score);
+      return {
+        scores: new Map(ranked.map((entry, index) => [entry.nodeId, 1 / (options.k + index + 1)])),
+        missing: 0,
+      };
+    }
+
+    case "min_max_normalized": {
+      const min = Math.min(...values);
+      const range = Math.max(...values) - min;
+      return {
+        scores: new Map(scored.map((entry) => [entry.nodeId, range > 0 ? (entry.score - min) / range : 1])),
+        missing: 0,
+      };
+    }
+
+    case "z_score": {
+      if (values.length === 0) return { scores: new Map(), missing: 0 };
+      const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+      const std = Math.sqrt(values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / values.length);
+      const z = new Map(scored.map((entry) => [entry.nodeId, std > 0 ? (entry.score - mean) / std : 0]));
+      // A node the signal did not return ranks below everything it did return
+      return { scores: z, missing: Math.min(0, ...z.values()) };
+    }
+  }
+}
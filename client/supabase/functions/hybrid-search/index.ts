@@ -1,5 +1,9 @@
 ﻿// @ts-expect-error: jsr specifier is resolved by Deno runtime
-import { createClient } from "jsr:@supabase/supabase-js@2";
+import { createClient, type SupabaseClient } from "jsr:@supabase/supabase-js@2";
+import { getEmbeddingProvider } from "../_shared/embeddings.ts";
+import { type FusionInput, fuseScores, parseFusionOptions } from "./fusion.ts";
+import { parseGraphScoring, personalizedPageRank } from "./pagerank.ts";
+import { parseTraversalOptions, type ReachedNode, type TraversalEdge, traverse } from "./traversal.ts";
 
 declare const Deno: {
   serve: (handler: (req: Request) => Promise<Response> | Response) => void;
@@ -10,45 +14,91 @@ declare const Deno: {
 
 type NodeMetadata = Record<string, unknown> | null;
 
+// Nodes are read without their embedding; similarity is computed in Postgres
 type NodeRecord = {
   id: string;
+  file_id: string;
   node_type: string;
   content: string;
-  embedding: number[];
   metadata: NodeMetadata;
+  version: number;
+  superseded_in: number | null;
 };
 
-type EdgeRecord = {
-  source_node_id: string;
-  target_node_id: string;
-  weight: number;
+type MatchRecord = NodeRecord & {
+  similarity: number;
 };
 
+type KeywordMatchRecord = NodeRecord & {
+  // BM25 score, unbounded
+  score: number;
+};
+
+// Nodes per file and embedding provider/model within the search scope
+type EmbeddingSpaceRecord = {
+  file_id: string;
+  embedding_provider: string | null;
+  embedding_model: string | null;
+  node_count: number;
+};
+
+type EdgeRecord = TraversalEdge;
+
+// An edge leaving the expanded nodes, with the node it leads to
+type NeighbourRecord = EdgeRecord & Omit<NodeRecord, "id">;
+
 type VectorResult = {
   nodeId: string;
   nodeType: string;
   content: string;
+  fileId: string;
+  fileName?: string;
   vectorScore: number;
 };
 
+type KeywordResult = {
+  nodeId: string;
+  nodeType: string;
+  content: string;
+  fileId: string;
+  fileName?: string;
+  // BM25 divided by the best BM25 in the results, so it sits on the vector scale
+  keywordScore: number;
+  bm25: number;
+  matchingWords: string[];
+};
+
 type GraphResult = {
   nodeId: string;
   sourceNode: string;
   graphScore: number;
+  // Stationary probability when graphScoring is "pagerank"
+  pagerank?: number;
+  // Hops from the vector hit the route started at
   distance: number;
+  connections: number;
+  edgeType: string;
+  edgeTypes: string[];
+  // The hop leads into a different file than the one it started from
+  crossDocument: boolean;
   path: string[];
   pathLabels?: string[];
   matchingSentence?: string;
   matchingWords?: string[];
   nodeType?: string;
   content?: string;
+  fileId?: string;
+  fileName?: string;
 };
 
 type CombinedResult = {
   nodeId: string;
   nodeType?: string;
   content?: string;
+  fileId?: string;
+  fileName?: string;
   vectorScore: number;
+  keywordScore: number;
   graphScore: number;
   connections: number;
 };
@@ -57,6 +107,24 @@ type HybridResult = CombinedResult & {
   hybridScore: number;
 };
 
+// Which files a request searches. `fileId` is the original single-file form;
+// archives expand to the files unpacked from them.
+type ScopeRequest = {
+  fileId?: string;
+  fileIds?: string[];
+  collectionId?: string;
+  scope?: "all";
+};
+
+// fileIds null (and no collection) means every file
+type SearchScope = {
+  fileIds: string[] | null;
+  collectionId?: string;
+};
+
+// graph_neighbours rows per request; PostgREST caps responses at 1000 rows by default
+const NEIGHBOUR_PAGE_SIZE = 1000;
+
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
   "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
@@ -68,7 +136,18 @@ Deno.serve(async (req: Request) => {
   }
 
   try {
-    const { query, fileId, vectorWeight, graphWeight, topK } = await req.json();
+    // `version` searches an earlier version of a single file; omitted means the current one.
+    // `nodeTypes` restricts the vector and keyword hits to those node types.
+    // `keywordWeight` weighs BM25 keyword matches against vector and graph scores (default 0).
+    // `maxHops` (1-4), `hopDecay`, `maxNeighbours` and `maxFrontier` shape the graph expansion.
+    // `graphScoring` is "path" (best route's decayed edge weights, default) or "pagerank"
+    // (personalized PageRank seeded from the vector hits over the expanded subgraph).
+    // `fusion` picks how the scores are combined: weighted_sum (default), rrf (with `rrfK`,
+    // default 60), min_max_normalized or z_score.
+    const body = await req.json();
+    const { query, vectorWeight, graphWeight, keywordWeight = 0, topK, version, nodeTypes } = body;
+    const fusion = parseFusionOptions(body.fusion, body.rrfK);
+    const graphScoring = parseGraphScoring(body.graphScoring);
 
     const supabase = createClient(
       Deno.env.get("SUPABASE_URL")!,
@@ -80,93 +159,213 @@ Deno.serve(async (req: Request) => {
     // ---------------------------
     // 1. Generate embedding for query
     // ---------------------------
-    const queryEmbedding = await localEmbedding(query);
+    const embedder = getEmbeddingProvider();
+    const queryEmbedding = await embedder.embedQuery(query);
 
     // ---------------------------
-    // 2. Get nodes for this file only
+    // 2. Resolve the files in scope and check they share the query's embedding space
     // ---------------------------
-    const { data: nodes } = await supabase
-      .from("nodes")
-      .select("*")
-      .eq("file_id", fileId);
+    const scope = await resolveScope(supabase, body);
+    const singleFile = scope.fileIds?.length === 1;
+    if (version && !singleFile) {
+      throw new Error("A version can only be searched within a single file");
+    }
 
-    if (!nodes || nodes.length === 0) {
-      throw new Error("No nodes found for this file");
+    const spaces = await fetchEmbeddingSpaces(supabase, scope, version);
+
+    if (spaces.length === 0) {
+      throw new Error(singleFile ? "No nodes found for this file" : "No nodes found in this search scope");
     }
 
-    const typedNodes = nodes as NodeRecord[];
-    const nodeLookup = new Map<string, NodeRecord>(
-      typedNodes.map((node: NodeRecord) => [node.id, node])
-    );
+    let skippedFileIds: string[] = [];
+    if (singleFile) {
+      assertSameEmbeddingSpace(spaces, embedder.name, embedder.model);
+    } else {
+      // Searching many files: leave out the ones embedded in another space instead of failing.
+      // With a corpus-weighted provider (local) each file has its own IDF, so
+      // scores are ranked across files as they are, not renormalised.
+      const searchable = new Set(
+        spaces.filter((space) => inEmbeddingSpace(space, embedder.name, embedder.model)).map((space) => space.file_id)
+      );
+      skippedFileIds = [...new Set(spaces.map((space) => space.file_id))].filter((id) => !searchable.has(id));
+      if (searchable.size === 0) {
+        throw new Error(
+          `No file in this search scope was embedded with ${embedder.name}/${embedder.model}; re-process them or change EMBEDDING_PROVIDER`
+        );
+      }
+    }
 
     // ---------------------------
-    // 3. VECTOR SEARCH (semantic similarity)
+    // 3. VECTOR SEARCH (top-k cosine in Postgres, match_nodes RPC)
     // ---------------------------
-    const vectorResults: VectorResult[] = typedNodes
-      .map((node: NodeRecord) => ({
-        nodeId: node.id,
-        nodeType: node.node_type,
-        content: node.content,
-        vectorScore: cosine(queryEmbedding, node.embedding),
-      }))
-      .sort((a: VectorResult, b: VectorResult) => b.vectorScore - a.vectorScore)
-      .slice(0, topK);
+    const { data: matches, error: matchError } = await supabase.rpc("match_nodes", {
+      p_query_embedding: queryEmbedding,
+      p_match_count: topK,
+      p_embedding_provider: embedder.name,
+      p_embedding_model: embedder.model,
+      p_file_ids: scope.fileIds,
+      p_collection_id: scope.collectionId ?? null,
+      p_node_types: nodeTypes?.length ? nodeTypes : null,
+      p_version: version ?? null,
+    });
+    if (matchError) throw new Error(`Vector search failed: ${matchError.message}`);
+
+    const typedMatches = (matches ?? []) as MatchRecord[];
+    const nodeLookup = new Map<string, NodeRecord>(
+      typedMatches.map((node: MatchRecord) => [node.id, node])
+    );
+
+    const vectorResults: VectorResult[] = typedMatches.map((node: MatchRecord) => ({
+      nodeId: node.id,
+      nodeType: node.node_type,
+      content: node.content,
+      fileId: node.file_id,
+      vectorScore: node.similarity,
+    }));
 
     // Get only the node IDs from vector results
     const topNodeIds = vectorResults.map((result) => result.nodeId);
 
     // ---------------------------
-    // 4. GRAPH SEARCH (expand neighborhood)
+    // 3b. KEYWORD SEARCH (BM25 over the full-text index, keyword_match_nodes RPC)
     // ---------------------------
-    const { data: edges } = await supabase
-      .from("edges")
-      .select("*")
-      .in("source_node_id", topNodeIds);
+    const { data: keywordMatches, error: keywordError } = await supabase.rpc("keyword_match_nodes", {
+      p_query: query,
+      p_match_count: topK,
+      p_file_ids: scope.fileIds,
+      p_collection_id: scope.collectionId ?? null,
+      p_node_types: nodeTypes?.length ? nodeTypes : null,
+      p_version: version ?? null,
+    });
+    if (keywordError) throw new Error(`Keyword search failed: ${keywordError.message}`);
 
-    const typedEdges = (edges || []) as EdgeRecord[];
+    const queryTokens = buildQueryTokenSet(query);
+
+    // Files left out of the vector search are left out here too
+    const typedKeywordMatches = ((keywordMatches ?? []) as KeywordMatchRecord[])
+      .filter((node) => !skippedFileIds.includes(node.file_id));
+    const bestBm25 = Math.max(0, ...typedKeywordMatches.map((node) => node.score));
 
-    const edgeNodeIds = new Set<string>();
-    typedEdges.forEach((edge) => {
-      edgeNodeIds.add(edge.source_node_id);
-      edgeNodeIds.add(edge.target_node_id);
+    const keywordResults: KeywordResult[] = typedKeywordMatches.map((node: KeywordMatchRecord) => ({
+      nodeId: node.id,
+      nodeType: node.node_type,
+      content: node.content,
+      fileId: node.file_id,
+      keywordScore: bestBm25 > 0 ? node.score / bestBm25 : 0,
+      bm25: node.score,
+      matchingWords: extractMatchingWords(node.content, queryTokens),
+    }));
+
+    // ---------------------------
+    // 4. GRAPH SEARCH (multi-hop expansion from the vector hits)
+    // ---------------------------
+    // Unchanged nodes still have edges to nodes a later version superseded (or vice versa)
+    const versionedFileId = version ? scope.fileIds?.[0] : undefined;
+    const isVisible = (node?: NodeRecord) =>
+      Boolean(node && isInVersion(node, node.file_id === versionedFileId ? version : undefined));
+
+    const traversal = parseTraversalOptions({
+      maxHops: body.maxHops,
+      decay: body.hopDecay,
+      maxNeighbours: body.maxNeighbours,
+      maxFrontier: body.maxFrontier,
     });
 
-    const missingNodeIds = Array.from(edgeNodeIds).filter((id) => !nodeLookup.has(id));
-    if (missingNodeIds.length > 0) {
-      const { data: extraNodes } = await supabase
-        .from("nodes")
-        .select("*")
-        .in("id", missingNodeIds);
+    // Every usable edge seen while expanding
+    const exploredEdges: EdgeRecord[] = [];
+    // One hop in Postgres (graph_neighbours RPC): the strongest visible edges out
+    // of each node, with the nodes they lead to, paged past the API's row cap
+    const expand = async (nodeIds: string[]): Promise<EdgeRecord[]> => {
+      const rows: NeighbourRecord[] = [];
+      for (let from = 0; ; from += NEIGHBOUR_PAGE_SIZE) {
+        const { data, error } = await supabase
+          .rpc("graph_neighbours", {
+            p_node_ids: nodeIds,
+            p_max_neighbours: traversal.maxNeighbours,
+            p_file_id: versionedFileId ?? null,
+            p_version: versionedFileId ? version : null,
+          })
+          .range(from, from + NEIGHBOUR_PAGE_SIZE - 1);
+        if (error) throw new Error(`Graph expansion failed: ${error.message}`);
+
+        rows.push(...((data ?? []) as NeighbourRecord[]));
+        if (!data || data.length < NEIGHBOUR_PAGE_SIZE) break;
+      }
 
-      (extraNodes || []).forEach((node: NodeRecord) => {
-        nodeLookup.set(node.id, node);
+      const hopEdges = rows.map((row: NeighbourRecord): EdgeRecord => {
+        if (!nodeLookup.has(row.target_node_id)) {
+          nodeLookup.set(row.target_node_id, {
+            id: row.target_node_id,
+            file_id: row.file_id,
+            node_type: row.node_type,
+            content: row.content,
+            metadata: row.metadata,
+            version: row.version,
+            superseded_in: row.superseded_in,
+          });
+        }
+        return {
+          source_node_id: row.source_node_id,
+          target_node_id: row.target_node_id,
+          edge_type: row.edge_type,
+          weight: row.weight,
+        };
       });
-    }
 
-    const queryTokens = buildQueryTokenSet(query);
+      exploredEdges.push(...hopEdges);
+      return hopEdges;
+    };
+
+    const { reached, edges: typedEdges } = await traverse(topNodeIds, traversal, expand);
+
+    // The walk covers the same neighbourhood the traversal explored. Scores are
+    // divided by the best non-seed probability so they sit on the vector scale;
+    // a seed reached from another seed is capped at 1.
+    const pagerank = graphScoring === "pagerank"
+      ? personalizedPageRank(
+        dedupeEdges(exploredEdges),
+        new Map(vectorResults.map((result) => [result.nodeId, result.vectorScore]))
+      )
+      : undefined;
+    const seedIds = new Set(topNodeIds);
+    const bestPagerank = Math.max(
+      0,
+      ...reached
+        .filter((route) => !seedIds.has(route.nodeId))
+        .map((route) => pagerank?.get(route.nodeId) ?? 0)
+    );
 
-    const graphResults: GraphResult[] = typedEdges.map((edge: EdgeRecord) => {
-      const path = [edge.source_node_id, edge.target_node_id];
-      const pathLabels = path.map((id) => deriveNodeLabel(nodeLookup.get(id)));
-      const targetNode = nodeLookup.get(edge.target_node_id);
+    const graphResults: GraphResult[] = reached.map((route: ReachedNode) => {
+      const pathLabels = route.path.map((id) => deriveNodeLabel(nodeLookup.get(id)));
+      const targetNode = nodeLookup.get(route.nodeId);
+      const seedNode = nodeLookup.get(route.path[0]);
       const matchingSentence = extractMatchingSentence(targetNode?.content, queryTokens);
       const matchingWords = extractMatchingWords(targetNode?.content, queryTokens);
+      const probability = pagerank?.get(route.nodeId);
       return {
-        nodeId: edge.target_node_id,
-        sourceNode: edge.source_node_id,
-        graphScore: edge.weight,
-        distance: 1,
-        path,
+        nodeId: route.nodeId,
+        sourceNode: route.path[route.path.length - 2],
+        graphScore: pagerank
+          ? (bestPagerank > 0 ? Math.min(1, (probability ?? 0) / bestPagerank) : 0)
+          : route.score,
+        pagerank: probability,
+        distance: route.hops,
+        connections: route.connections,
+        edgeType: route.edgeTypes[route.edgeTypes.length - 1],
+        edgeTypes: route.edgeTypes,
+        crossDocument: Boolean(seedNode && targetNode && seedNode.file_id !== targetNode.file_id),
+        path: route.path,
         pathLabels,
         matchingSentence,
         matchingWords,
-        nodeType: nodeLookup.get(edge.target_node_id)?.node_type,
-        content: nodeLookup.get(edge.target_node_id)?.content,
+        nodeType: targetNode?.node_type,
+        content: targetNode?.content,
+        fileId: targetNode?.file_id,
       };
-    });
+    }).sort((a, b) => b.graphScore - a.graphScore);
 
     // ---------------------------
-    // 5. MERGE VECTOR + GRAPH INTO HYBRID
+    // 5. MERGE VECTOR + KEYWORD + GRAPH INTO HYBRID
     // ---------------------------
     const combined = new Map<string, CombinedResult>();
 
@@ -174,37 +373,76 @@ Deno.serve(async (req: Request) => {
     for (const v of vectorResults) {
       combined.set(v.nodeId, {
         ...v,
+        keywordScore: 0,
         graphScore: 0,
         connections: 0,
       });
     }
 
+    // Merge keyword results
+    for (const k of keywordResults) {
+      const existing = combined.get(k.nodeId);
+
+      if (existing) {
+        existing.keywordScore = k.keywordScore;
+      } else {
+        combined.set(k.nodeId, {
+          nodeId: k.nodeId,
+          nodeType: k.nodeType,
+          content: k.content,
+          fileId: k.fileId,
+          vectorScore: 0,
+          keywordScore: k.keywordScore,
+          graphScore: 0,
+          connections: 0,
+        });
+      }
+    }
+
     // Merge graph results
     for (const g of graphResults) {
       const existing = combined.get(g.nodeId);
 
       if (existing) {
         existing.graphScore = Math.max(existing.graphScore, g.graphScore);
-        existing.connections++;
+        existing.connections = g.connections;
       } else {
         const nodeDetails = nodeLookup.get(g.nodeId);
         combined.set(g.nodeId, {
           nodeId: g.nodeId,
           nodeType: nodeDetails?.node_type,
           content: nodeDetails?.content,
+          fileId: nodeDetails?.file_id,
           vectorScore: 0,
+          keywordScore: 0,
           graphScore: g.graphScore,
-          connections: 1,
+          connections: g.connections,
         });
       }
     }
 
-    // Compute hybrid score
+    // Compute hybrid score; only the signals that returned a node count as its scores
+    const vectorHits = new Set(vectorResults.map((result) => result.nodeId));
+    const keywordHits = new Set(keywordResults.map((result) => result.nodeId));
+    const graphHits = new Set(graphResults.map((result) => result.nodeId));
+    const fusionInputs: FusionInput[] = Array.from(combined.values(), (result) => ({
+      nodeId: result.nodeId,
+      scores: {
+        vector: vectorHits.has(result.nodeId) ? result.vectorScore : undefined,
+        keyword: keywordHits.has(result.nodeId) ? result.keywordScore : undefined,
+        graph: graphHits.has(result.nodeId) ? result.graphScore : undefined,
+      },
+    }));
+    const fusedScores = fuseScores(
+      fusionInputs,
+      { vector: vectorWeight, keyword: keywordWeight, graph: graphWeight },
+      fusion
+    );
+
     const hybridResults: HybridResult[] = Array.from(combined.values())
       .map((result: CombinedResult): HybridResult => ({
         ...result,
-        hybridScore:
-          result.vectorScore * vectorWeight + result.graphScore * graphWeight,
+        hybridScore: fusedScores.get(result.nodeId) ?? 0,
       }))
       .sort((a: HybridResult, b: HybridResult) => b.hybridScore - a.hybridScore)
       .slice(0, topK);
@@ -212,28 +450,47 @@ Deno.serve(async (req: Request) => {
     // ---------------------------
     // 6. SEND RESPONSE
     // ---------------------------
-    const graphNodes = typedNodes.map((node: NodeRecord) => ({
-      id: node.id,
-      nodeType: node.node_type,
-      content: node.content,
-      label: deriveNodeLabel(node),
-    }));
+    const fileNames = await fetchFileNames(supabase, [
+      ...new Set([
+        ...Array.from(nodeLookup.values(), (node) => node.file_id),
+        ...keywordResults.map((result) => result.fileId),
+        ...skippedFileIds,
+      ]),
+    ]);
+    for (const result of [...vectorResults, ...keywordResults, ...graphResults, ...hybridResults]) {
+      result.fileName = result.fileId ? fileNames.get(result.fileId) : undefined;
+    }
+
+    const graphNodes = Array.from(nodeLookup.values())
+      .filter((node) => isVisible(node))
+      .map((node: NodeRecord) => ({
+        id: node.id,
+        nodeType: node.node_type,
+        content: node.content,
+        label: deriveNodeLabel(node),
+        fileName: fileNames.get(node.file_id),
+      }));
 
     const graphLinks = typedEdges.map((edge: EdgeRecord) => ({
       source: edge.source_node_id,
       target: edge.target_node_id,
       weight: edge.weight,
+      edgeType: edge.edge_type,
     }));
 
     return new Response(
       JSON.stringify({
         vectorResults,
+        keywordResults,
         graphResults,
         hybridResults,
+        fusion: fusion.method === "rrf" ? fusion : { method: fusion.method },
+        graphScoring,
         graphVisualization: {
           nodes: graphNodes,
           links: graphLinks,
         },
+        skippedFiles: skippedFileIds.map((id) => fileNames.get(id) ?? id),
       }),
       { headers: { ...corsHeaders, "Content-Type": "application/json" } }
     );
@@ -248,50 +505,100 @@ Deno.serve(async (req: Request) => {
 });
 
 // ---------------------------
-// Local deterministic embedding generator (no external API)
-// Produces a 768-dimension normalized vector derived from the text.
-// This allows running the app locally without Lovable or other embedding services.
+// Files to search; collections are resolved in Postgres
 // ---------------------------
-function localEmbedding(text: string): number[] {
-  const dim = 768;
-  const vec: number[] = new Array(dim);
-
-  // simple FNV-1a-like seeding from text
-  let seed = 2166136261 >>> 0;
-  for (let i = 0; i < text.length; i++) {
-    seed ^= text.charCodeAt(i);
-    seed = Math.imul(seed, 16777619) >>> 0;
+async function resolveScope(
+  supabase: SupabaseClient,
+  { fileId, fileIds, collectionId, scope }: ScopeRequest
+): Promise<SearchScope> {
+  if (scope === "all") return { fileIds: null };
+  if (collectionId) return { fileIds: null, collectionId };
+
+  const requested = fileIds?.length ? fileIds : fileId ? [fileId] : [];
+  if (requested.length === 0) {
+    throw new Error('Specify a fileId, a list of fileIds, a collectionId or scope: "all"');
   }
 
-  for (let i = 0; i < dim; i++) {
-    let s = (seed ^ (i + 0x9e3779b9)) >>> 0;
-    s = (s ^ (s << 13)) >>> 0;
-    s = (s ^ (s >>> 17)) >>> 0;
-    s = (s ^ (s << 5)) >>> 0;
-    // map to [-1, 1]
-    vec[i] = ((s % 10000) / 10000) * 2 - 1;
-  }
+  const { data: children, error } = await supabase
+    .from("files")
+    .select("id")
+    .in("parent_file_id", requested);
+  if (error) throw new Error(`Failed to resolve search scope: ${error.message}`);
+
+  return {
+    fileIds: [...new Set([...requested, ...(children ?? []).map((child: { id: string }) => child.id)])],
+  };
+}
 
-  // normalize
-  let norm = 0;
-  for (let i = 0; i < dim; i++) norm += vec[i] * vec[i];
-  norm = Math.sqrt(norm) || 1;
-  for (let i = 0; i < dim; i++) vec[i] = vec[i] / norm;
+async function fetchEmbeddingSpaces(
+  supabase: SupabaseClient,
+  scope: SearchScope,
+  version?: number
+): Promise<EmbeddingSpaceRecord[]> {
+  const { data, error } = await supabase.rpc("scope_embedding_spaces", {
+    p_file_ids: scope.fileIds,
+    p_collection_id: scope.collectionId ?? null,
+    p_version: version ?? null,
+  });
+  if (error) throw new Error(`Failed to inspect search scope: ${error.message}`);
+  return (data ?? []) as EmbeddingSpaceRecord[];
+}
+
+async function fetchFileNames(supabase: SupabaseClient, fileIds: string[]): Promise<Map<string, string>> {
+  if (fileIds.length === 0) return new Map();
+
+  const { data } = await supabase.from("files").select("id, filename").in("id", fileIds);
+  return new Map((data ?? []).map((file: { id: string; filename: string }) => [file.id, file.filename]));
+}
+
+// ---------------------------
+// One edge per source/target pair, keeping the strongest
+// ---------------------------
+function dedupeEdges(edges: EdgeRecord[]): EdgeRecord[] {
+  const strongest = new Map<string, EdgeRecord>();
+  for (const edge of edges) {
+    const key = `${edge.source_node_id}:${edge.target_node_id}`;
+    const existing = strongest.get(key);
+    if (!existing || (edge.weight ?? 1) > (existing.weight ?? 1)) strongest.set(key, edge);
+  }
+  return Array.from(strongest.values());
+}
 
-  return vec;
+// ---------------------------
+// A node belongs to `version` from the version that added it until the one that superseded it
+// ---------------------------
+function isInVersion(node: NodeRecord, version?: number): boolean {
+  if (!version) return node.superseded_in === null;
+  return node.version <= version && (node.superseded_in === null || node.superseded_in > version);
 }
 
 // ---------------------------
-// COSINE SIMILARITY
+// Vectors from different providers/models are not comparable
 // ---------------------------
-function cosine(a: number[], b: number[]) {
-  let dot = 0, na = 0, nb = 0;
-  for (let i = 0; i < a.length; i++) {
-    dot += a[i] * b[i];
-    na += a[i] * a[i];
-    nb += b[i] * b[i];
+function inEmbeddingSpace(space: EmbeddingSpaceRecord, provider: string, model: string): boolean {
+  return space.embedding_provider === provider && space.embedding_model === model;
+}
+
+function assertSameEmbeddingSpace(spaces: EmbeddingSpaceRecord[], provider: string, model: string) {
+  const expected = `${provider}/${model}`;
+  const found = new Set(
+    spaces.map((space) =>
+      space.embedding_provider ? `${space.embedding_provider}/${space.embedding_model}` : "legacy"
+    )
+  );
+
+  if (found.size > 1) {
+    throw new Error(
+      `File mixes embeddings from ${Array.from(found).join(", ")}; re-process it with ${expected}`
+    );
+  }
+
+  const [indexed] = found;
+  if (indexed !== expected) {
+    throw new Error(
+      `File was embedded with ${indexed} but queries use ${expected}; re-process it or change EMBEDDING_PROVIDER`
+    );
   }
-  return dot / (Math.sqrt(na) * Math.sqrt(nb));
 }
 
 const LABEL_WORD_LIMIT = 3;
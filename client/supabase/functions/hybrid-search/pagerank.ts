@@ -0,0 +1,94 @@
+import type { TraversalEdge } from "./traversal.ts";
+
+export type GraphScoring = "path" | "pagerank";
+
+export type PageRankOptions = {
+  // Probability of following an edge rather than jumping back to a seed
+  damping: number;
+  maxIterations: number;
+  // Stop once the total change in probability falls below this
+  tolerance: number;
+};
+
+export const GRAPH_SCORING: GraphScoring[] = ["path", "pagerank"];
+
+export const DEFAULT_PAGERANK: PageRankOptions = {
+  damping: 0.85,
+  maxIterations: 50,
+  tolerance: 1e-6,
+};
+
+/* Validate the request's `graphScoring` */
+export function parseGraphScoring(value: unknown): GraphScoring {
+  if (value === undefined) return "path";
+  if (!GRAPH_SCORING.includes(value as GraphScoring)) {
+    throw new Error(`Unknown graphScoring "${value}"; use one of ${GRAPH_SCORING.join(", ")}`);
+  }
+  return value as GraphScoring;
+}
+
+// ---- Personalized PageRank by power iteration ----
+// The walk restarts at a seed with probability 1 - damping, picking seeds in
+// proportion to their weight (their vector similarity). Edges are walked in
+// both directions, split by edge weight, and a node without edges sends its
+// mass back to the seeds. Returns the stationary probability of every node.
+export function personalizedPageRank(
+  edges: TraversalEdge[],
+  seeds: Map<string, number>,
+  options: PageRankOptions = DEFAULT_PAGERANK
+): Map<string, number> {
+  const neighbours = new Map<string, Map<string, number>>();
+  const link = (from: string, to: string, weight: number) => {
+    const out = neighbours.get(from) ?? new Map<string, number>();
+    out.set(to, (out.get(to) ?? 0) + weight);
+    neighbours.set(from, out);
+  };
+  for (const edge of edges) {
+    const weight = Math.max(edge.weight ?? 1, 0);
+    if (weight === 0 || edge.source_node_id === edge.target_node_id) continue;
+    link(edge.source_node_id, edge.target_node_id, weight);
+    link(edge.target_node_id, edge.source_node_id, weight);
+  }
+
+  const seedTotal = Array.from(seeds.values()).reduce((sum, weight) => sum + Math.max(weight, 0), 0);
+  const restart = new Map(
+    Array.from(seeds, ([nodeId, weight]) => [
+      nodeId,
+      seedTotal > 0 ? Math.max(weight, 0) / seedTotal : 1 / seeds.size,
+    ])
+  );
+
+  const nodeIds = new Set([...neighbours.keys(), ...restart.keys()]);
+  let rank = new Map(restart);
+
+  for (let iteration = 0; iteration < options.maxIterations; iteration++) {
+    const next = new Map<string, number>();
+    let stranded = 0;
+
+    for (const [nodeId, mass] of rank) {
+      const out = neighbours.get(nodeId);
+      if (!out) {
+        stranded += mass;
+        continue;
+      }
+      const total = Array.from(out.values()).reduce((sum, weight) => sum + weight, 0);
+      for (const [target, weight] of out) {
+        next.set(target, (next.get(target) ?? 0) + options.damping * mass * (weight / total));
+      }
+      stranded += (1 - options.damping) * mass;
+    }
+
+    for (const [nodeId, share] of restart) {
+      next.set(nodeId, (next.get(nodeId) ?? 0) + stranded * share);
+    }
+
+    let change = 0;
+    for (const nodeId of nodeIds) {
+      change += Math.abs((next.get(nodeId) ?? 0) - (rank.get(nodeId) ?? 0));
+    }
+    rank = next;
+    if (change < options.tolerance) break;
+  }
+
+  return rank;
+}
@@ -0,0 +1,125 @@
+export type TraversalEdge = {
+  source_node_id: string;
+  target_node_id: string;
+  edge_type: string;
+  weight: number | null;
+};
+
+export type TraversalOptions = {
+  // Hops away from the seeds (1-4)
+  maxHops: number;
+  // Score multiplier applied for every hop after the first
+  decay: number;
+  // Strongest edges followed out of each node
+  maxNeighbours: number;
+  // Best-scoring nodes expanded on the next hop
+  maxFrontier: number;
+};
+
+// A node reached from the seeds, with its best-scoring route
+export type ReachedNode = {
+  nodeId: string;
+  path: string[];
+  edgeTypes: string[];
+  score: number;
+  hops: number;
+  // How many traversed edges lead into the node
+  connections: number;
+};
+
+export const MAX_HOPS = 4;
+
+export const DEFAULT_TRAVERSAL: TraversalOptions = {
+  maxHops: 1,
+  decay: 0.5,
+  maxNeighbours: 10,
+  maxFrontier: 50,
+};
+
+/* Clamp request parameters into the supported ranges */
+export function parseTraversalOptions(input: Partial<Record<keyof TraversalOptions, unknown>>): TraversalOptions {
+  const pick = (value: unknown, fallback: number, min: number, max: number) =>
+    typeof value === "number" && Number.isFinite(value) ? Math.min(Math.max(value, min), max) : fallback;
+
+  return {
+    maxHops: Math.round(pick(input.maxHops, DEFAULT_TRAVERSAL.maxHops, 1, MAX_HOPS)),
+    decay: pick(input.decay, DEFAULT_TRAVERSAL.decay, 0, 1),
+    maxNeighbours: Math.round(pick(input.maxNeighbours, DEFAULT_TRAVERSAL.maxNeighbours, 1, 50)),
+    maxFrontier: Math.round(pick(input.maxFrontier, DEFAULT_TRAVERSAL.maxFrontier, 1, 200)),
+  };
+}
+
+// ---- Breadth-first expansion from the vector hits ----
+// A route scores the product of its edge weights, decayed once per hop after
+// the first, so one hop keeps the raw edge weight. Routes never revisit a node
+// and each node keeps only its best route. `expand` loads the usable edges
+// leaving a set of nodes (already filtered to nodes that may be visited).
+export async function traverse(
+  seeds: string[],
+  options: TraversalOptions,
+  expand: (nodeIds: string[]) => Promise<TraversalEdge[]>
+): Promise<{ reached: ReachedNode[]; edges: TraversalEdge[] }> {
+  const best = new Map<string, ReachedNode>();
+  const connections = new Map<string, number>();
+  const traversed = new Map<string, TraversalEdge>();
+  const expanded = new Set(seeds);
+
+  let frontier: ReachedNode[] = seeds.map((nodeId) => ({
+    nodeId,
+    path: [nodeId],
+    edgeTypes: [],
+    score: 1,
+    hops: 0,
+    connections: 0,
+  }));
+
+  for (let hop = 1; hop <= options.maxHops && frontier.length > 0; hop++) {
+    const edges = await expand(frontier.map((node) => node.nodeId));
+    const bySource = new Map<string, TraversalEdge[]>();
+    for (const edge of edges) {
+      bySource.set(edge.source_node_id, [...(bySource.get(edge.source_node_id) ?? []), edge]);
+    }
+
+    const discovered = new Map<string, ReachedNode>();
+    for (const from of frontier) {
+      const strongest = (bySource.get(from.nodeId) ?? [])
+        .sort((a, b) => (b.weight ?? 1) - (a.weight ?? 1))
+        .slice(0, options.maxNeighbours);
+
+      for (const edge of strongest) {
+        const target = edge.target_node_id;
+        if (from.path.includes(target)) continue;
+
+        traversed.set(`${edge.source_node_id}:${target}`, edge);
+        connections.set(target, (connections.get(target) ?? 0) + 1);
+
+        const candidate: ReachedNode = {
+          nodeId: target,
+          path: [...from.path, target],
+          edgeTypes: [...from.edgeTypes, edge.edge_type],
+          score: from.score * (edge.weight ?? 1) * (hop > 1 ? options.decay : 1),
+          hops: hop,
+          connections: 0,
+        };
+
+        const previous = best.get(target);
+        if (!previous || candidate.score > previous.score) {
+          best.set(target, candidate);
+          discovered.set(target, candidate);
+        }
+      }
+    }
+
+    frontier = Array.from(discovered.values())
+      .filter((node) => !expanded.has(node.nodeId))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, options.maxFrontier);
+    frontier.forEach((node) => expanded.add(node.nodeId));
+  }
+
+  const reached = Array.from(best.values())
+    .map((node) => ({ ...node, connections: connections.get(node.nodeId) ?? 0 }))
+    .sort((a, b) => b.score - a.score);
+
+  return { reached, edges: Array.from(traversed.values()) };
+}
@@ -0,0 +1,215 @@
+export type ChunkingStrategy = "fixed" | "sentence" | "paragraph" | "recursive";
+
+export type ChunkingOptions = {
+  strategy: ChunkingStrategy;
+  // Maximum characters per chunk (fixed, paragraph, recursive)
+  chunkSize: number;
+  // Characters repeated from the end of the previous chunk
+  overlap: number;
+  // Token budget per chunk for the sentence strategy
+  maxTokens: number;
+};
+
+export type TextChunk = {
+  content: string;
+  // Character offsets into the text that was chunked
+  start: number;
+  end: number;
+};
+
+type Span = { start: number; end: number };
+
+export const DEFAULT_CHUNKING: ChunkingOptions = {
+  strategy: "recursive",
+  chunkSize: 500,
+  overlap: 50,
+  maxTokens: 128,
+};
+
+const STRATEGIES: ChunkingStrategy[] = ["fixed", "sentence", "paragraph", "recursive"];
+const RECURSIVE_SEPARATORS = ["\n\n", "\n", ". ", " "];
+
+// ---- Validate the `chunking` field of the request body, falling back to defaults ----
+export function parseChunkingOptions(raw: unknown): ChunkingOptions {
+  const input = (raw && typeof raw === "object" ? raw : {}) as Partial<Record<keyof ChunkingOptions, unknown>>;
+
+  const strategy = STRATEGIES.includes(input.strategy as ChunkingStrategy)
+    ? (input.strategy as ChunkingStrategy)
+    : DEFAULT_CHUNKING.strategy;
+  const chunkSize = clampInt(input.chunkSize, 100, 4000, DEFAULT_CHUNKING.chunkSize);
+  const overlap = clampInt(input.overlap, 0, Math.floor(chunkSize / 2), DEFAULT_CHUNKING.overlap);
+  const maxTokens = clampInt(input.maxTokens, 16, 1024, DEFAULT_CHUNKING.maxTokens);
+
+  return { strategy, chunkSize, overlap, maxTokens };
+}
+
+export function chunkText(text: string, options: ChunkingOptions): TextChunk[] {
+  let spans: Span[];
+
+  switch (options.strategy) {
+    case "fixed":
+      spans = fixedSpans(text, options.chunkSize, options.overlap);
+      break;
+    case "sentence":
+      spans = pack(
+        splitSentences(text).flatMap((span) =>
+          estimateTokens(text.slice(span.start, span.end)) > options.maxTokens
+            ? recursiveSpans(text, span, options.maxTokens * 4)
+            : [span]
+        ),
+        (span) => estimateTokens(text.slice(span.start, span.end)),
+        options.maxTokens,
+        options.overlap
+      );
+      break;
+    case "paragraph":
+      spans = pack(
+        splitParagraphs(text).flatMap((span) =>
+          span.end - span.start > options.chunkSize ? recursiveSpans(text, span, options.chunkSize) : [span]
+        ),
+        (span) => span.end - span.start,
+        options.chunkSize,
+        0
+      );
+      break;
+    default:
+      spans = pack(
+        recursiveSpans(text, { start: 0, end: text.length }, options.chunkSize),
+        (span) => span.end - span.start,
+        options.chunkSize,
+        options.overlap
+      );
+  }
+
+  return spans
+    .map((span) => trimSpan(text, span))
+    .filter((span) => span.end > span.start)
+    .map((span) => ({ content: text.slice(span.start, span.end), start: span.start, end: span.end }));
+}
+
+// Rough token count (~4 characters per token for English text)
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+// Fixed windows that back off to the previous whitespace instead of splitting a word
+function fixedSpans(text: string, size: number, overlap: number): Span[] {
+  const spans: Span[] = [];
+  let start = 0;
+
+  while (start < text.length) {
+    let end = Math.min(start + size, text.length);
+
+    if (end < text.length && /\S/.test(text[end])) {
+      const lastSpace = text.lastIndexOf(" ", end);
+      const lastBreak = Math.max(lastSpace, text.lastIndexOf("\n", end));
+      if (lastBreak > start + size / 2) end = lastBreak;
+    }
+
+    spans.push({ start, end });
+    if (end >= text.length) break;
+    let next = Math.max(end - overlap, start + 1);
+    // Start the overlap on a word boundary
+    while (next < end && /\S/.test(text[next - 1]) && /\S/.test(text[next])) next++;
+    start = next;
+  }
+
+  return spans;
+}
+
+function splitSentences(text: string): Span[] {
+  return Array.from(text.matchAll(/[^.!?\n]+(?:[.!?]+["')\]]*|\n+|$)\s*/g), (match) => ({
+    start: match.index ?? 0,
+    end: (match.index ?? 0) + match[0].length,
+  }));
+}
+
+function splitParagraphs(text: string): Span[] {
+  const spans: Span[] = [];
+  let start = 0;
+
+  for (const match of text.matchAll(/\n\s*\n/g)) {
+    const end = (match.index ?? 0) + match[0].length;
+    spans.push({ start, end });
+    start = end;
+  }
+
+  if (start < text.length) spans.push({ start, end: text.length });
+  return spans;
+}
+
+// Split on the coarsest separator that works, recursing into pieces that are still too long
+function recursiveSpans(text: string, span: Span, size: number, level = 0): Span[] {
+  if (span.end - span.start <= size) return [span];
+
+  const separator = RECURSIVE_SEPARATORS[level];
+  if (separator === undefined) {
+    const pieces: Span[] = [];
+    for (let start = span.start; start < span.end; start += size) {
+      pieces.push({ start, end: Math.min(start + size, span.end) });
+    }
+    return pieces;
+  }
+
+  const pieces: Span[] = [];
+  let start = span.start;
+  let index = text.indexOf(separator, start);
+
+  while (index !== -1 && index < span.end) {
+    const end = Math.min(index + separator.length, span.end);
+    pieces.push({ start, end });
+    start = end;
+    index = text.indexOf(separator, start);
+  }
+  if (start < span.end) pieces.push({ start, end: span.end });
+
+  return pieces.flatMap((piece) => recursiveSpans(text, piece, size, level + 1));
+}
+
+// Greedily merge consecutive pieces up to `budget`, carrying trailing pieces as overlap
+function pack(
+  pieces: Span[],
+  measure: (span: Span) => number,
+  budget: number,
+  overlap: number
+): Span[] {
+  const chunks: Span[] = [];
+  let current: Span[] = [];
+
+  const size = (spans: Span[]) =>
+    spans.length ? measure({ start: spans[0].start, end: spans[spans.length - 1].end }) : 0;
+
+  for (const piece of pieces) {
+    if (current.length && size([...current, piece]) > budget) {
+      chunks.push({ start: current[0].start, end: current[current.length - 1].end });
+
+      const carried: Span[] = [];
+      for (let i = current.length - 1; i >= 0; i--) {
+        const candidate = [current[i], ...carried];
+        if (candidate[candidate.length - 1].end - candidate[0].start > overlap) break;
+        carried.unshift(current[i]);
+      }
+      current = size([...carried, piece]) <= budget ? carried : [];
+    }
+    current.push(piece);
+  }
+
+  if (current.length) {
+    chunks.push({ start: current[0].start, end: current[current.length - 1].end });
+  }
+
+  return chunks;
+}
+
+function trimSpan(text: string, span: Span): Span {
+  let { start, end } = span;
+  while (start < end && /\s/.test(text[start])) start++;
+  while (end > start && /\s/.test(text[end - 1])) end--;
+  return { start, end };
+}
+
+function clampInt(value: unknown, min: number, max: number, fallback: number): number {
+  const number = Number(value);
+  if (!Number.isFinite(number)) return fallback;
+  return Math.min(max, Math.max(min, Math.round(number)));
+}
@@ -0,0 +1,454 @@
+import {
+  type CodeLanguage,
+  type CodeOutline,
+  detectCodeLanguage,
+  extractCodeOutline,
+  findCalledNames,
+} from "./parsers/code.ts";
+import { type ChunkingOptions, chunkText, DEFAULT_CHUNKING } from "./chunking.ts";
+import { parseCsv } from "./parsers/csv.ts";
+import { extractDocxBlocks } from "./parsers/docx.ts";
+import { extractHtmlBlocks } from "./parsers/html.ts";
+import { walkJson } from "./parsers/json.ts";
+import { extractMarkdownBlocks } from "./parsers/markdown.ts";
+import type { OutlineBlock } from "./parsers/outline.ts";
+import { extractPdfPages } from "./parsers/pdf.ts";
+
+export type ExtractedChunk = {
+  nodeType:
+    | "text"
+    | "section"
+    | "row"
+    | "object"
+    | "array"
+    | "module"
+    | "class"
+    | "function"
+    | "folder"
+    | "file";
+  content: string;
+  metadata: Record<string, unknown>;
+};
+
+// Structural edge between two chunks, referenced by their index in `chunks`
+export type ExtractedEdge = {
+  source: number;
+  target: number;
+  edgeType: string;
+  weight: number;
+  metadata?: Record<string, unknown>;
+};
+
+export type ExtractedDocument = {
+  chunks: ExtractedChunk[];
+  edges: ExtractedEdge[];
+};
+
+export type ExtractOptions = {
+  csvKeyColumn?: string;
+  // Leave the rows unlinked instead of failing when the CSV has no such column
+  optionalKeyColumn?: boolean;
+  chunking?: ChunkingOptions;
+};
+
+// Rows sharing a key value are linked to at most this many of their nearest peers
+const MAX_SHARED_VALUE_LINKS = 5;
+
+// Extensions with a dedicated parser, plus plain text; used to pick files out of archives
+const SUPPORTED_FILE_PATTERN = /\.(pdf|docx|md|markdown|html?|csv|json|txt)$/i;
+
+// Uploads are stored as "<uuid>_<name>" (earlier ones as "<timestamp>_<name>")
+const UPLOAD_KEY_PREFIX = /^([0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}|\d+)_/i;
+
+// Edge types that point from a container to its parts (child_of points the other way)
+const CONTAINMENT_EDGE_TYPES = new Set(["contains", "defines", "imports"]);
+
+export function isSupportedFileName(fileName: string): boolean {
+  return SUPPORTED_FILE_PATTERN.test(fileName) || detectCodeLanguage(fileName) !== undefined;
+}
+
+export function isArchive(fileName: string, fileType?: string): boolean {
+  return fileType === "application/zip" || fileType === "application/x-zip-compressed" || /\.zip$/i.test(fileName);
+}
+
+// ---- Pick a parser from the file extension / MIME type ----
+export async function extractDocument(
+  file: Blob,
+  fileName: string,
+  fileType?: string,
+  options: ExtractOptions = {}
+): Promise<ExtractedDocument> {
+  const chunking = options.chunking ?? DEFAULT_CHUNKING;
+
+  if (fileType === "application/pdf" || /\.pdf$/i.test(fileName)) {
+    const pages = await extractPdfPages(new Uint8Array(await file.arrayBuffer()));
+
+    const chunks = pages.flatMap((page) => textChunks(page.text, chunking, { page: page.pageNumber }, "page"));
+    return { chunks, edges: [] };
+  }
+
+  if (/\.doc$/i.test(fileName) || fileType === "application/msword") {
+    throw new Error("Legacy .doc files are not supported; save the document as .docx");
+  }
+
+  if (
+    fileType === "application/vnd.openxmlformats-officedocument.wordprocessingml.document" ||
+    /\.docx$/i.test(fileName)
+  ) {
+    return outlineToDocument(extractDocxBlocks(new Uint8Array(await file.arrayBuffer())), chunking);
+  }
+
+  if (fileType === "text/markdown" || /\.(md|markdown)$/i.test(fileName)) {
+    return outlineToDocument(extractMarkdownBlocks(await file.text()), chunking);
+  }
+
+  if (fileType === "text/html" || /\.html?$/i.test(fileName)) {
+    return outlineToDocument(extractHtmlBlocks(await file.text()), chunking);
+  }
+
+  if (fileType === "text/csv" || /\.csv$/i.test(fileName)) {
+    return csvToDocument(await file.text(), options.csvKeyColumn, options.optionalKeyColumn);
+  }
+
+  if (fileType === "application/json" || /\.json$/i.test(fileName)) {
+    return jsonToDocument(await file.text());
+  }
+
+  const language = detectCodeLanguage(fileName);
+  if (language) {
+    return codeToDocument(await file.text(), fileName.replace(UPLOAD_KEY_PREFIX, ""), language);
+  }
+
+  return { chunks: textChunks(await file.text(), chunking, {}, "file"), edges: [] };
+}
+
+// ---- Chunk free text, recording the strategy and offsets on each chunk ----
+// start/end count characters from the beginning of the file, of the PDF page
+// (metadata.page) or of the outline block (metadata.block); offsetBase says which.
+function textChunks(
+  text: string,
+  chunking: ChunkingOptions,
+  metadata: Record<string, unknown>,
+  offsetBase: "file" | "page" | "block"
+): ExtractedChunk[] {
+  return chunkText(text, chunking).map((chunk, chunkIndex): ExtractedChunk => ({
+    nodeType: "text",
+    content: chunk.content,
+    metadata: {
+      ...metadata,
+      chunking: chunking.strategy,
+      chunkIndex,
+      start: chunk.start,
+      end: chunk.end,
+      offsetBase,
+    },
+  }));
+}
+
+// ---- Headings become section nodes; sections contain sub-sections and paragraphs ----
+function outlineToDocument(blocks: OutlineBlock[], chunking: ChunkingOptions): ExtractedDocument {
+  const chunks: ExtractedChunk[] = [];
+  const edges: ExtractedEdge[] = [];
+  // Open sections from outermost to innermost
+  const stack: { index: number; text: string; level: number }[] = [];
+
+  for (const [blockIndex, block] of blocks.entries()) {
+    if (block.kind === "heading") {
+      while (stack.length && stack[stack.length - 1].level >= block.level) stack.pop();
+
+      const index = chunks.length;
+      chunks.push({
+        nodeType: "section",
+        content: block.text,
+        metadata: { heading: block.text, level: block.level },
+      });
+
+      const parent = stack[stack.length - 1];
+      if (parent) {
+        edges.push({ source: parent.index, target: index, edgeType: "contains", weight: 1 });
+      }
+
+      stack.push({ index, text: block.text, level: block.level });
+      continue;
+    }
+
+    const section = stack[stack.length - 1];
+    const metadata = section
+      ? { heading: section.text, level: section.level, block: blockIndex }
+      : { block: blockIndex };
+    for (const chunk of textChunks(block.text, chunking, metadata, "block")) {
+      if (section) {
+        edges.push({ source: section.index, target: chunks.length, edgeType: "contains", weight: 1 });
+      }
+      chunks.push(chunk);
+    }
+  }
+
+  return { chunks, edges };
+}
+
+// ---- One row node per record; rows sharing a key-column value get linked ----
+function csvToDocument(text: string, requestedKeyColumn?: string, optionalKeyColumn = false): ExtractedDocument {
+  const { headers, rows } = parseCsv(text);
+
+  let keyColumn = requestedKeyColumn;
+  if (keyColumn && !headers.includes(keyColumn)) {
+    if (!optionalKeyColumn) {
+      throw new Error(`Key column "${keyColumn}" not found. Available columns: ${headers.join(", ")}`);
+    }
+    keyColumn = undefined;
+  }
+
+  const chunks = rows.map((columns, i): ExtractedChunk => ({
+    nodeType: "row",
+    content: headers
+      .filter((header) => columns[header])
+      .map((header) => `${header}: ${columns[header]}`)
+      .join("\n"),
+    metadata: { row: i + 1, columns },
+  }));
+
+  const edges: ExtractedEdge[] = [];
+  if (!keyColumn) {
+    return { chunks, edges };
+  }
+
+  const groups = new Map<string, number[]>();
+  rows.forEach((columns, i) => {
+    const value = columns[keyColumn];
+    if (!value) return;
+    if (!groups.has(value)) groups.set(value, []);
+    groups.get(value)!.push(i);
+  });
+
+  for (const [value, members] of groups) {
+    members.forEach((source, position) => {
+      const peers = members
+        .map((target, p) => ({ target, gap: Math.abs(p - position) }))
+        .filter((peer) => peer.gap > 0)
+        .sort((a, b) => a.gap - b.gap)
+        .slice(0, MAX_SHARED_VALUE_LINKS);
+
+      for (const { target } of peers) {
+        edges.push({
+          source,
+          target,
+          edgeType: "shared_value",
+          weight: 1,
+          metadata: { column: keyColumn, value },
+        });
+      }
+    });
+  }
+
+  return { chunks, edges };
+}
+
+// ---- Objects and arrays become nodes linked to their parent by child_of edges ----
+function jsonToDocument(text: string): ExtractedDocument {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (err) {
+    throw new Error(`Invalid JSON: ${err instanceof Error ? err.message : String(err)}`);
+  }
+
+  const jsonNodes = walkJson(parsed);
+  const childCounts = new Array<number>(jsonNodes.length).fill(0);
+  jsonNodes.forEach((node) => {
+    if (node.parent !== undefined) childCounts[node.parent]++;
+  });
+
+  const chunks = jsonNodes.map((node, i): ExtractedChunk => {
+    const named = ["name", "title", "id"]
+      .map((wanted) => node.fields.find(([key]) => key.toLowerCase() === wanted))
+      .find(Boolean);
+    const summary = node.kind === "array" && node.fields.length === 0
+      ? `(${childCounts[i]} items)`
+      : "";
+
+    return {
+      nodeType: node.kind,
+      content: [node.path, ...node.fields.map(([key, value]) => `${key}: ${value}`), summary]
+        .filter(Boolean)
+        .join("\n"),
+      metadata: {
+        path: node.path,
+        depth: node.depth,
+        label: named ? `${node.key} (${named[1]})` : node.key,
+      },
+    };
+  });
+
+  const edges = jsonNodes.flatMap((node, i): ExtractedEdge[] =>
+    node.parent === undefined
+      ? []
+      : [{ source: i, target: node.parent, edgeType: "child_of", weight: 1 }]
+  );
+
+  return { chunks, edges };
+}
+
+// ---- Module, class and function nodes with defines / imports / calls edges ----
+function codeToDocument(text: string, moduleName: string, language: CodeLanguage): ExtractedDocument {
+  const outline = extractCodeOutline(text, language);
+  const { lines, symbols, imports } = outline;
+  const chunks: ExtractedChunk[] = [];
+  const edges: ExtractedEdge[] = [];
+
+  // Module node keeps everything outside symbol bodies (imports, constants, signatures)
+  const topLevel = symbols.filter((symbol) => symbol.parent === undefined);
+  chunks.push({
+    nodeType: "module",
+    content: skeleton(lines, 0, lines.length, topLevel),
+    metadata: { name: moduleName, language, lineCount: lines.length },
+  });
+
+  const symbolChunk = new Map<number, number>();
+  symbols.forEach((symbol, i) => {
+    const methods = symbols.filter((member) => member.parent === i);
+    symbolChunk.set(i, chunks.length);
+    chunks.push({
+      nodeType: symbol.kind === "class" ? "class" : "function",
+      content: skeleton(lines, symbol.startLine - 1, symbol.endLine, methods),
+      metadata: {
+        name: symbol.parent === undefined ? symbol.name : `${symbols[symbol.parent].name}.${symbol.name}`,
+        kind: symbol.kind,
+        language,
+        startLine: symbol.startLine,
+        endLine: symbol.endLine,
+      },
+    });
+  });
+
+  symbols.forEach((symbol, i) => {
+    const owner = symbol.parent === undefined ? 0 : symbolChunk.get(symbol.parent)!;
+    edges.push({ source: owner, target: symbolChunk.get(i)!, edgeType: "defines", weight: 1 });
+  });
+
+  // Imported modules become their own nodes so shared dependencies connect symbols
+  const importChunk = new Map<string, number>();
+  const bindingModule = new Map<string, string>();
+  for (const { module, bindings } of imports) {
+    if (!importChunk.has(module)) {
+      importChunk.set(module, chunks.length);
+      chunks.push({
+        nodeType: "module",
+        content: `import ${module}`,
+        metadata: { name: module, language, external: true },
+      });
+      edges.push({ source: 0, target: importChunk.get(module)!, edgeType: "imports", weight: 1 });
+    }
+    bindings.forEach((binding) => bindingModule.set(binding, module));
+  }
+
+  symbols.forEach((symbol, i) => {
+    const targets = new Map<number, string>();
+
+    const members = symbols.filter((member) => member.parent === i);
+    for (const name of findCalledNames(outline, symbol, members)) {
+      const callee = resolveCallee(outline, i, name);
+      if (callee !== undefined && callee !== i) {
+        targets.set(symbolChunk.get(callee)!, name);
+        continue;
+      }
+
+      const module = bindingModule.get(name);
+      if (module) targets.set(importChunk.get(module)!, name);
+    }
+
+    for (const [target, name] of targets) {
+      edges.push({
+        source: symbolChunk.get(i)!,
+        target,
+        edgeType: "calls",
+        weight: 1,
+        metadata: { name },
+      });
+    }
+  });
+
+  return { chunks, edges };
+}
+
+// Prefer a sibling method, then a top-level symbol, then any method with that name
+function resolveCallee(outline: CodeOutline, caller: number, name: string): number | undefined {
+  const { symbols } = outline;
+  const candidates = symbols
+    .map((symbol, index) => ({ symbol, index }))
+    .filter(({ symbol }) => symbol.name === name);
+
+  const parent = symbols[caller].parent;
+  return (
+    candidates.find(({ symbol }) => parent !== undefined && symbol.parent === parent) ??
+    candidates.find(({ symbol }) => symbol.parent === undefined) ??
+    candidates[0]
+  )?.index;
+}
+
+// Source lines [from, to) with the bodies of nested symbols collapsed to their first line
+function skeleton(
+  lines: string[],
+  from: number,
+  to: number,
+  nested: { startLine: number; endLine: number }[]
+): string {
+  const kept: string[] = [];
+
+  for (let line = from; line < to; line++) {
+    const inside = nested.find((symbol) => line >= symbol.startLine && line < symbol.endLine);
+    if (inside) {
+      if (line === inside.startLine) kept.push(`${lines[line].match(/^\s*/)![0]}...`);
+      continue;
+    }
+    kept.push(lines[line]);
+  }
+
+  return kept.join("\n").replace(/\n{3,}/g, "\n\n").trim();
+}
+
+// ---- Folder and file nodes mirroring an archive's directory tree ----
+export function archiveToDocument(
+  archiveName: string,
+  paths: string[]
+): ExtractedDocument & { fileChunks: number[] } {
+  const chunks: ExtractedChunk[] = [
+    { nodeType: "folder", content: `${archiveName}/`, metadata: { path: "", label: archiveName } },
+  ];
+  const edges: ExtractedEdge[] = [];
+  const folders = new Map<string, number>([["", 0]]);
+
+  const folderIndex = (path: string): number => {
+    const existing = folders.get(path);
+    if (existing !== undefined) return existing;
+
+    const slash = path.lastIndexOf("/");
+    const parent = folderIndex(slash === -1 ? "" : path.slice(0, slash));
+    const index = chunks.length;
+    chunks.push({ nodeType: "folder", content: `${path}/`, metadata: { path, label: path.slice(slash + 1) } });
+    edges.push({ source: parent, target: index, edgeType: "contains", weight: 1 });
+    folders.set(path, index);
+    return index;
+  };
+
+  const fileChunks = paths.map((path) => {
+    const slash = path.lastIndexOf("/");
+    const parent = folderIndex(slash === -1 ? "" : path.slice(0, slash));
+    const index = chunks.length;
+    chunks.push({ nodeType: "file", content: path, metadata: { path, label: path.slice(slash + 1) } });
+    edges.push({ source: parent, target: index, edgeType: "contains", weight: 1 });
+    return index;
+  });
+
+  return { chunks, edges, fileChunks };
+}
+
+// ---- Chunks no other chunk contains: the entry points an enclosing folder links to ----
+export function rootChunkIndexes({ chunks, edges }: ExtractedDocument): number[] {
+  const contained = new Set<number>();
+  for (const edge of edges) {
+    if (CONTAINMENT_EDGE_TYPES.has(edge.edgeType)) contained.add(edge.target);
+    if (edge.edgeType === "child_of") contained.add(edge.source);
+  }
+  return chunks.map((_, i) => i).filter((i) => !contained.has(i));
+}
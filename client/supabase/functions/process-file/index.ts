@@ -1,17 +1,46 @@
-import { createClient } from "jsr:@supabase/supabase-js@2";
+import { createClient, type SupabaseClient } from "jsr:@supabase/supabase-js@2";
+import {
+  crossDocumentNeighbours,
+  type IngestionJob,
+  type JobOptions,
+  NonRetryableError,
+  runStage,
+  STAGE_ORDER,
+  type StageProgress,
+} from "./pipeline.ts";
+
+declare const EdgeRuntime: {
+  waitUntil(promise: Promise<unknown>): void;
+};
+
+// A stage that has not finished within its lease is considered crashed and may be re-claimed
+const STAGE_LEASE_SECONDS = 300;
+const RETRY_BASE_DELAY_MS = 2000;
+// Workers started for the files unpacked from an archive or relinked in a collection; each picks up
+// the next queued job when done
+const ARCHIVE_WORKERS = 3;
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
   "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
 };
 
+// Request bodies:
+//   { fileId, fileName, fileType?, csvKeyColumn?, chunking?, crossDocument? }  queue a new ingestion job
+//   { ..., newVersion: true, fileSize?, contentHash? }                         queue `fileName` as the next version of `fileId`
+//   { fileId, reprocess: true }                                                re-ingest the current version with the last options
+//   { collectionId, relink: true }                                             rebuild a collection's cross-document edges, one job per file
+//   { jobId }                                                                  run the job's next stage
+//   {}                                                                         pick up any waiting or stalled job
+// The response is sent immediately; the stage runs in the background and then
+// re-invokes this function for the following stage.
 Deno.serve(async (req) => {
   if (req.method === "OPTIONS") {
     return new Response(null, { headers: corsHeaders });
   }
 
   try {
-    const { fileId, fileName } = await req.json();
+    const body = await req.json().catch(() => ({}));
 
     const supabase = createClient(
       Deno.env.get("SUPABASE_URL")!,
@@ -20,126 +49,229 @@ Deno.serve(async (req) => {
       Deno.env.get("SERVICE_ROLE_KEY")!
     );
 
-    // Download file text
-    const { data: file } = await supabase
-      .storage
-      .from("uploads")
-      .download(fileName);
+    if (body.collectionId && body.relink) {
+      const jobIds = await enqueueCollectionRelink(supabase, body.collectionId);
+      EdgeRuntime.waitUntil(startWorkers(supabase, jobIds.length));
 
-    const text = await file.text();
+      return new Response(
+        JSON.stringify({ success: true, jobIds }),
+        { status: 202, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
 
-    const chunks = splitIntoChunks(text);  // chunking function
+    const queued = body.fileId
+      ? await enqueueJob(supabase, body.reprocess ? await reprocessRequest(supabase, body.fileId) : body)
+      : undefined;
+    const jobId: string | undefined = body.jobId ?? queued?.jobId;
 
-    const embeddings: number[][] = [];
-    const nodes = [];
+    EdgeRuntime.waitUntil(processNextStage(supabase, jobId));
 
-    // ---- GENERATE LOCAL EMBEDDINGS ----
-    for (const chunk of chunks) {
-      const embedding = await localEmbedding(chunk);
-      embeddings.push(embedding);
+    return new Response(
+      JSON.stringify({ success: true, jobId, version: queued?.version }),
+      { status: 202, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
 
-      const { data: node } = await supabase
-        .from("nodes")
-        .insert({
-          file_id: fileId,
-          node_type: "text",
-          content: chunk,
-          embedding
-        })
-        .select()
-        .single();
+  } catch (err) {
+    console.error(err);
+    const message = err instanceof Error ? err.message : String(err);
+    return new Response(
+      JSON.stringify({ error: message }),
+      { status: 500, headers: corsHeaders }
+    );
+  }
+});
 
-      nodes.push(node);
-    }
+type EnqueueRequest = JobOptions & {
+  fileId: string;
+  newVersion?: boolean;
+  fileSize?: number;
+  contentHash?: string;
+};
 
-    // ---- CREATE SEMANTIC EDGES USING COSINE SIMILARITY ----
-    const edges = [];
+// ---- Re-run the file's current version with the options of its last job ----
+async function reprocessRequest(supabase: SupabaseClient, fileId: string): Promise<EnqueueRequest> {
+  const { data: file, error } = await supabase
+    .from("files")
+    .select("file_path, file_type, current_version")
+    .eq("id", fileId)
+    .single();
+  if (error) throw new Error(`File ${fileId} not found: ${error.message}`);
 
-    for (let i = 0; i < nodes.length; i++) {
-      const scores = [];
+  const { data: lastJob } = await supabase
+    .from("ingestion_jobs")
+    .select("options")
+    .eq("file_id", fileId)
+    // Collection relinks carry no ingestion options
+    .is("options->linkOnly", null)
+    .order("created_at", { ascending: false })
+    .limit(1)
+    .maybeSingle();
 
-      for (let j = 0; j < nodes.length; j++) {
-        if (i === j) continue;
+  const { error: statusError } = await supabase
+    .from("files")
+    .update({ status: "processing", error_message: null })
+    .eq("id", fileId);
+  if (statusError) throw new Error(`Failed to reset file status: ${statusError.message}`);
 
-        const sim = cosine(embeddings[i], embeddings[j]);
-        scores.push({ j, sim });
-      }
+  return {
+    ...(lastJob?.options as JobOptions | undefined),
+    fileId,
+    fileName: file.file_path,
+    fileType: file.file_type ?? undefined,
+    version: file.current_version,
+  };
+}
 
-      const top5 = scores.sort((a, b) => b.sim - a.sim).slice(0, 5);
+async function enqueueJob(
+  supabase: SupabaseClient,
+  request: EnqueueRequest
+): Promise<{ jobId: string; version: number }> {
+  const { fileId, fileName, fileType, csvKeyColumn, chunking, crossDocument, archiveNodeId } = request;
+  const { newVersion, fileSize, contentHash } = request;
+  let version = request.version ?? 1;
+  if (newVersion) {
+    const { data, error } = await supabase.rpc("create_file_version", {
+      p_file_id: fileId,
+      p_file_path: fileName,
+      p_file_size: fileSize ?? null,
+      p_content_hash: contentHash ?? null,
+    });
+    if (error) throw new Error(`Failed to create file version: ${error.message}`);
+    version = data;
+  }
 
-      for (const t of top5) {
-        edges.push({
-          source_node_id: nodes[i].id,
-          target_node_id: nodes[t.j].id,
-          edge_type: "semantic",
-          weight: t.sim
-        });
-      }
-    }
+  // Kept on the file so collection relinks still honour this upload's choice
+  const { error: fileError } = await supabase
+    .from("files")
+    .update({ cross_document_k: crossDocumentNeighbours(crossDocument) })
+    .eq("id", fileId);
+  if (fileError) throw new Error(`Failed to record cross-document option: ${fileError.message}`);
 
-    await supabase.from("edges").insert(edges);
+  const { data, error } = await supabase
+    .from("ingestion_jobs")
+    .insert({
+      file_id: fileId,
+      options: { fileName, fileType, csvKeyColumn, chunking, crossDocument, archiveNodeId, version },
+    })
+    .select("id")
+    .single();
 
-    // Update file status
-    await supabase.from("files")
-      .update({ status: "completed" })
-      .eq("id", fileId);
+  if (error) throw new Error(`Failed to queue ingestion job: ${error.message}`);
+  return { jobId: data.id, version };
+}
 
-    return new Response(
-      JSON.stringify({
-        success: true,
-        nodesCreated: nodes.length,
-        edgesCreated: edges.length
-      }),
-      { headers: { ...corsHeaders, "Content-Type": "application/json" } }
-    );
+// ---- Drop a collection's cross-document edges and queue a link-only job per file ----
+async function enqueueCollectionRelink(supabase: SupabaseClient, collectionId: string): Promise<string[]> {
+  const { data: files, error } = await supabase.rpc("reset_collection_edges", { p_collection_id: collectionId });
+  if (error) throw new Error(`Failed to reset collection edges: ${error.message}`);
+  if (!files?.length) return [];
 
-  } catch (err) {
-    console.error(err);
-    return new Response(
-      JSON.stringify({ error: err.message }),
-      { status: 500, headers: corsHeaders }
-    );
-  }
-});
+  const { data, error: insertError } = await supabase
+    .from("ingestion_jobs")
+    .insert(
+      (files as { file_id: string; file_path: string }[]).map((file) => ({
+        file_id: file.file_id,
+        stage: "link",
+        options: { fileName: file.file_path, linkOnly: true },
+      }))
+    )
+    .select("id");
+  if (insertError) throw new Error(`Failed to queue link jobs: ${insertError.message}`);
 
-// ---- Local deterministic embedding generator (no external API) ----
-async function localEmbedding(text: string): Promise<number[]> {
-  // synchronous work but keep API async for compatibility
-  const dim = 768;
-  const vec: number[] = new Array(dim);
+  return data.map((job: { id: string }) => job.id);
+}
 
-  let seed = 2166136261 >>> 0;
-  for (let i = 0; i < text.length; i++) {
-    seed ^= text.charCodeAt(i);
-    seed = Math.imul(seed, 16777619) >>> 0;
+// Run one job here and hand the rest to up to ARCHIVE_WORKERS - 1 more invocations
+async function startWorkers(supabase: SupabaseClient, jobCount: number) {
+  for (let i = 1; i < Math.min(jobCount, ARCHIVE_WORKERS); i++) {
+    await triggerWorker();
   }
+  if (jobCount > 0) await processNextStage(supabase);
+}
+
+// ---- Claim the job, run one stage, then hand off to a fresh invocation ----
+async function processNextStage(supabase: SupabaseClient, jobId?: string) {
+  const { data: claimed, error: claimError } = await supabase.rpc("claim_ingestion_job", {
+    p_job_id: jobId ?? null,
+    p_lease_seconds: STAGE_LEASE_SECONDS,
+  });
 
-  for (let i = 0; i < dim; i++) {
-    let s = (seed ^ (i + 0x9e3779b9)) >>> 0;
-    s = (s ^ (s << 13)) >>> 0;
-    s = (s ^ (s >>> 17)) >>> 0;
-    s = (s ^ (s << 5)) >>> 0;
-    vec[i] = ((s % 10000) / 10000) * 2 - 1;
+  if (claimError) {
+    console.error("Failed to claim ingestion job:", claimError);
+    return;
   }
 
-  let norm = 0;
-  for (let i = 0; i < dim; i++) norm += vec[i] * vec[i];
-  norm = Math.sqrt(norm) || 1;
-  for (let i = 0; i < dim; i++) vec[i] = vec[i] / norm;
+  // Nothing waiting, or another invocation already holds the lease
+  const job = (claimed as IngestionJob[] | null)?.[0];
+  if (!job) return;
 
-  return vec;
-}
+  const updateJob = (values: Record<string, unknown>) =>
+    supabase.from("ingestion_jobs").update(values).eq("id", job.id);
+
+  const report = async (stageProgress: StageProgress) => {
+    await updateJob({ progress: { ...job.progress, [job.stage]: stageProgress } });
+  };
+
+  try {
+    const stageProgress = await runStage(supabase, job, report);
+    const progress = { ...job.progress, [job.stage]: stageProgress };
+    const nextStage = STAGE_ORDER[STAGE_ORDER.indexOf(job.stage) + 1];
 
-function splitIntoChunks(text: string): string[] {
-  return text.match(/(.|\n){1,500}/g) || [];
+    if (nextStage === "done") {
+      await updateJob({ status: "completed", stage: nextStage, progress, attempts: 0, error: null, locked_until: null });
+      if (!job.options.linkOnly) {
+        await supabase.from("files").update({ status: "completed", error_message: null }).eq("id", job.file_id);
+      }
+      await triggerWorker();
+      return;
+    }
+
+    await updateJob({ status: "queued", stage: nextStage, progress, attempts: 0, error: null, locked_until: null });
+    await triggerWorker(job.id);
+
+    // An unpacked archive has queued one job per file
+    const unpackedFiles = Number(stageProgress.files ?? 0);
+    for (let i = 0; i < Math.min(unpackedFiles, ARCHIVE_WORKERS); i++) {
+      await triggerWorker();
+    }
+
+  } catch (err) {
+    console.error(err);
+    const message = err instanceof Error ? err.message : String(err);
+    const attempts = job.attempts + 1;
+
+    if (!(err instanceof NonRetryableError) && attempts < job.max_attempts) {
+      await updateJob({ status: "queued", attempts, error: message, locked_until: null });
+      await new Promise((resolve) => setTimeout(resolve, RETRY_BASE_DELAY_MS * 2 ** (attempts - 1)));
+      await triggerWorker(job.id);
+      return;
+    }
+
+    await updateJob({ status: "failed", attempts, error: message, locked_until: null });
+    // A failed relink leaves the file searchable; the reason stays on the job
+    if (!job.options.linkOnly) {
+      await supabase.from("files")
+        .update({ status: "failed", error_message: `${job.stage} stage failed: ${message}` })
+        .eq("id", job.file_id);
+    }
+    await triggerWorker();
+  }
 }
 
-function cosine(a: number[], b: number[]): number {
-  let dot = 0, na = 0, nb = 0;
-  for (let i = 0; i < a.length; i++) {
-    dot += a[i] * b[i];
-    na += a[i] * a[i];
-    nb += b[i] * b[i];
+// Without a jobId the invocation claims whichever job has waited longest
+async function triggerWorker(jobId?: string) {
+  const response = await fetch(`${Deno.env.get("SUPABASE_URL")}/functions/v1/process-file`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${Deno.env.get("SERVICE_ROLE_KEY")}`,
+    },
+    body: JSON.stringify(jobId ? { jobId } : {}),
+  });
+
+  if (!response.ok) {
+    // The job stays queued; the scheduled sweep (or the next upload) picks it up
+    console.error(`Failed to trigger worker${jobId ? ` for job ${jobId}` : ""}: ${response.status}`);
   }
-  return dot / (Math.sqrt(na) * Math.sqrt(nb));
+  await response.body?.cancel();
 }
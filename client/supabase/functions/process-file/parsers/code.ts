@@ -0,0 +1,340 @@
+export type CodeLanguage = "typescript" | "javascript" | "python";
+
+export type CodeSymbol = {
+  kind: "class" | "function" | "method";
+  name: string;
+  startLine: number;
+  endLine: number;
+  // Index of the enclosing class for methods
+  parent?: number;
+};
+
+export type CodeImport = {
+  module: string;
+  // Local bindings introduced by the import (used to resolve calls)
+  bindings: string[];
+};
+
+export type CodeOutline = {
+  language: CodeLanguage;
+  lines: string[];
+  imports: CodeImport[];
+  symbols: CodeSymbol[];
+};
+
+const CODE_EXTENSIONS: Record<string, CodeLanguage> = {
+  ts: "typescript",
+  tsx: "typescript",
+  mts: "typescript",
+  cts: "typescript",
+  js: "javascript",
+  jsx: "javascript",
+  mjs: "javascript",
+  cjs: "javascript",
+  py: "python",
+};
+
+const NOT_METHOD_NAMES = new Set([
+  "if", "for", "while", "switch", "catch", "function", "return", "with",
+]);
+
+export function detectCodeLanguage(fileName: string): CodeLanguage | undefined {
+  const extension = fileName.split(".").pop()?.toLowerCase() ?? "";
+  return CODE_EXTENSIONS[extension];
+}
+
+export function extractCodeOutline(text: string, language: CodeLanguage): CodeOutline {
+  const source = text.replace(/\r\n?/g, "\n");
+  const lines = source.split("\n");
+
+  return language === "python"
+    ? { language, lines, imports: readPythonImports(source), symbols: readPythonSymbols(lines) }
+    : { language, lines, imports: readScriptImports(source), symbols: readScriptSymbols(lines) };
+}
+
+// Names invoked as `name(` or `obj.name(` within a symbol, outside its nested members
+export function findCalledNames(outline: CodeOutline, symbol: CodeSymbol, nested: CodeSymbol[] = []): Set<string> {
+  const body = outline.lines
+    .slice(symbol.startLine - 1, symbol.endLine)
+    .filter((_, offset) => {
+      const line = symbol.startLine + offset;
+      return !nested.some((member) => line >= member.startLine && line <= member.endLine);
+    })
+    .join("\n");
+  const called = new Set<string>();
+
+  for (const [, root, members] of body.matchAll(/([A-Za-z_$][\w$]*)((?:\s*\.\s*[A-Za-z_$][\w$]*)*)\s*\(/g)) {
+    called.add(root);
+    const last = members.split(".").pop()?.trim();
+    if (last) called.add(last);
+  }
+
+  return called;
+}
+
+/* ---------------------------
+   JavaScript / TypeScript
+----------------------------*/
+function readScriptImports(source: string): CodeImport[] {
+  const imports: CodeImport[] = [];
+  const statement = /(?:^|\n)\s*(?:import|export)\s+(?:type\s+)?([\s\S]*?)\s*from\s*["']([^"']+)["']|(?:^|\n)\s*import\s*["']([^"']+)["']|require\(\s*["']([^"']+)["']\s*\)/g;
+
+  for (const match of source.matchAll(statement)) {
+    const module = match[2] ?? match[3] ?? match[4];
+    const clause = match[1] ?? "";
+    const bindings: string[] = [];
+
+    const named = clause.match(/\{([\s\S]*?)\}/)?.[1];
+    if (named) {
+      for (const part of named.split(",")) {
+        const binding = part.trim().replace(/^type\s+/, "").split(/\s+as\s+/).pop()?.trim();
+        if (binding) bindings.push(binding);
+      }
+    }
+
+    const namespace = clause.match(/\*\s+as\s+([A-Za-z_$][\w$]*)/)?.[1];
+    if (namespace) bindings.push(namespace);
+
+    const defaultBinding = clause.match(/^([A-Za-z_$][\w$]*)\s*(?:,|$)/)?.[1];
+    if (defaultBinding) bindings.push(defaultBinding);
+
+    imports.push({ module, bindings });
+  }
+
+  return imports;
+}
+
+function readScriptSymbols(lines: string[]): CodeSymbol[] {
+  const symbols: CodeSymbol[] = [];
+  const offsets = lineOffsets(lines);
+  const source = lines.join("\n");
+
+  let line = 0;
+  while (line < lines.length) {
+    const declaration = matchScriptDeclaration(lines[line]);
+    if (!declaration) {
+      line++;
+      continue;
+    }
+
+    const endLine = findScriptEnd(source, offsets, line);
+    const index = symbols.length;
+    symbols.push({ kind: declaration.kind, name: declaration.name, startLine: line + 1, endLine });
+
+    if (declaration.kind === "class") {
+      symbols.push(...readClassMethods(lines, source, offsets, line + 1, endLine - 1, index));
+    }
+
+    line = endLine;
+  }
+
+  return symbols;
+}
+
+function matchScriptDeclaration(line: string): { kind: "class" | "function"; name: string } | undefined {
+  const fn = line.match(/^(?:export\s+)?(?:default\s+)?(?:async\s+)?function\s*\*?\s*([A-Za-z_$][\w$]*)/);
+  if (fn) return { kind: "function", name: fn[1] };
+
+  const cls = line.match(/^(?:export\s+)?(?:default\s+)?(?:abstract\s+)?class\s+([A-Za-z_$][\w$]*)/);
+  if (cls) return { kind: "class", name: cls[1] };
+
+  const arrow = line.match(
+    /^(?:export\s+)?(?:const|let|var)\s+([A-Za-z_$][\w$]*)\s*(?::[^=]+)?=\s*(?:async\s+)?(?:function\b|(?:<[^>]*>)?\([^)]*\)\s*(?::[^=]+)?=>|[A-Za-z_$][\w$]*\s*=>)/
+  );
+  if (arrow) return { kind: "function", name: arrow[1] };
+
+  return undefined;
+}
+
+function readClassMethods(
+  lines: string[],
+  source: string,
+  offsets: number[],
+  bodyStart: number,
+  bodyEnd: number,
+  parent: number
+): CodeSymbol[] {
+  const methods: CodeSymbol[] = [];
+  // Members sit at the indentation of the first line in the class body
+  const firstMember = lines.slice(bodyStart, bodyEnd).find((text) => text.trim()) ?? "";
+  const memberIndent = firstMember.length - firstMember.trimStart().length;
+
+  let line = bodyStart;
+  while (line < bodyEnd) {
+    const text = lines[line];
+    const indent = text.length - text.trimStart().length;
+    const match = indent === memberIndent && text.trimStart().match(
+      /^(?:(?:public|private|protected|static|async|readonly|override|abstract|get|set)\s+)*\*?\s*(#?[A-Za-z_$][\w$]*)\s*(?:<[^>]*>)?\s*\(/
+    );
+
+    if (match && !NOT_METHOD_NAMES.has(match[1])) {
+      const endLine = findScriptEnd(source, offsets, line);
+      methods.push({ kind: "method", name: match[1], startLine: line + 1, endLine, parent });
+      line = endLine;
+      continue;
+    }
+
+    line++;
+  }
+
+  return methods;
+}
+
+// 1-based line on which the declaration starting on `startLine` (0-based) ends
+function findScriptEnd(source: string, offsets: number[], startLine: number): number {
+  const start = offsets[startLine];
+  let depth = 0;
+  let bodyOpened = false;
+  let i = start;
+
+  while (i < source.length) {
+    const char = source[i];
+    const next = source[i + 1];
+
+    if (char === "/" && next === "/") {
+      const newline = source.indexOf("\n", i);
+      i = newline === -1 ? source.length : newline;
+      continue;
+    }
+    if (char === "/" && next === "*") {
+      const close = source.indexOf("*/", i + 2);
+      i = close === -1 ? source.length : close + 2;
+      continue;
+    }
+    if (char === "\"" || char === "'" || char === "`") {
+      i = skipString(source, i);
+      continue;
+    }
+
+    if (char === "{" || char === "(" || char === "[") {
+      if (char === "{" && depth === 0) bodyOpened = true;
+      depth++;
+    } else if (char === "}" || char === ")" || char === "]") {
+      depth--;
+      if (bodyOpened && depth === 0) return lineAt(offsets, i) + 1;
+    } else if (!bodyOpened && depth === 0) {
+      // Declarations without a block body, e.g. `const f = (x) => x * 2;`
+      if (char === ";") return lineAt(offsets, i) + 1;
+      if (char === "\n" && endsExpressionBody(source.slice(start, i))) return lineAt(offsets, i) + 1;
+    }
+
+    i++;
+  }
+
+  return offsets.length;
+}
+
+function endsExpressionBody(statement: string): boolean {
+  return /=>\s*\S/.test(statement) && !/[=(,[{+\-*/?:|&.]\s*$/.test(statement);
+}
+
+function skipString(source: string, start: number): number {
+  const quote = source[start];
+  let i = start + 1;
+
+  while (i < source.length) {
+    if (source[i] === "\\") {
+      i += 2;
+      continue;
+    }
+    if (source[i] === quote) return i + 1;
+    if (source[i] === "\n" && quote !== "`") return i;
+    i++;
+  }
+
+  return i;
+}
+
+/* ---------------------------
+   Python
+----------------------------*/
+function readPythonImports(source: string): CodeImport[] {
+  const imports: CodeImport[] = [];
+  const joined = source.replace(/\(\s*([^)]*?)\s*\)/g, (group) => group.replace(/\s*\n\s*/g, " "));
+
+  for (const line of joined.split("\n")) {
+    const from = line.match(/^\s*from\s+(\.*[\w.]*)\s+import\s+\(?([^)#]+)\)?/);
+    if (from) {
+      const bindings = from[2]
+        .split(",")
+        .map((part) => part.trim().split(/\s+as\s+/).pop()?.trim() ?? "")
+        .filter((binding) => binding && binding !== "*");
+      imports.push({ module: from[1], bindings });
+      continue;
+    }
+
+    const plain = line.match(/^\s*import\s+([^#]+)/);
+    if (plain) {
+      for (const part of plain[1].split(",")) {
+        const [module, alias] = part.trim().split(/\s+as\s+/);
+        if (!module) continue;
+        imports.push({ module, bindings: [alias ?? module.split(".")[0]] });
+      }
+    }
+  }
+
+  return imports;
+}
+
+function readPythonSymbols(lines: string[]): CodeSymbol[] {
+  const symbols: CodeSymbol[] = [];
+  // Open classes whose direct members are still being read
+  const classes: { index: number; indent: number }[] = [];
+
+  for (let line = 0; line < lines.length; line++) {
+    const match = lines[line].match(/^(\s*)(?:async\s+)?(def|class)\s+([A-Za-z_]\w*)/);
+    if (!match) continue;
+
+    const indent = match[1].length;
+    while (classes.length && classes[classes.length - 1].indent >= indent) classes.pop();
+
+    const owner = classes[classes.length - 1];
+    // Only top-level definitions and direct class members become symbols
+    if (indent > 0 && !owner) continue;
+    if (owner && symbols.some((s) => s.parent === owner.index && s.kind === "method" && s.startLine <= line && s.endLine > line)) continue;
+
+    const endLine = findPythonEnd(lines, line, indent);
+    const kind = match[2] === "class" ? "class" : owner ? "method" : "function";
+    const index = symbols.length;
+
+    symbols.push({ kind, name: match[3], startLine: line + 1, endLine, parent: owner?.index });
+    if (kind === "class") classes.push({ index, indent });
+  }
+
+  return symbols;
+}
+
+// 1-based last line of the indented block opened on `startLine`
+function findPythonEnd(lines: string[], startLine: number, indent: number): number {
+  let end = startLine + 1;
+
+  for (let line = startLine + 1; line < lines.length; line++) {
+    const text = lines[line];
+    if (!text.trim()) continue;
+    if (text.match(/^\s*/)![0].length <= indent) break;
+    end = line + 1;
+  }
+
+  return end;
+}
+
+function lineOffsets(lines: string[]): number[] {
+  const offsets: number[] = [];
+  let offset = 0;
+  for (const line of lines) {
+    offsets.push(offset);
+    offset += line.length + 1;
+  }
+  return offsets;
+}
+
+function lineAt(offsets: number[], index: number): number {
+  let low = 0;
+  let high = offsets.length - 1;
+  while (low < high) {
+    const mid = (low + high + 1) >> 1;
+    if (offsets[mid] <= index) low = mid;
+    else high = mid - 1;
+  }
+  return low;
+}
@@ -0,0 +1,84 @@
+export type CsvTable = {
+  headers: string[];
+  rows: Record<string, string>[];
+};
+
+// ---- RFC 4180 style parser: quoted fields, escaped quotes, embedded newlines ----
+export function parseCsv(text: string): CsvTable {
+  const source = text.replace(/^\uFEFF/, "");
+  const delimiter = detectDelimiter(source);
+  const records: string[][] = [];
+
+  let record: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+
+    if (inQuotes) {
+      if (char === "\"" && source[i + 1] === "\"") {
+        field += "\"";
+        i++;
+      } else if (char === "\"") {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === "\"") {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      record.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && source[i + 1] === "\n") i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || record.length) {
+    record.push(field);
+    records.push(record);
+  }
+
+  const nonEmpty = records.filter((r) => r.some((value) => value.trim() !== ""));
+  if (nonEmpty.length === 0) {
+    return { headers: [], rows: [] };
+  }
+
+  const headers = uniqueHeaders(nonEmpty[0]);
+  const rows = nonEmpty.slice(1).map((values) =>
+    Object.fromEntries(headers.map((header, i) => [header, (values[i] ?? "").trim()]))
+  );
+
+  return { headers, rows };
+}
+
+// Pick whichever of , ; or tab appears most often in the header line
+function detectDelimiter(text: string): string {
+  const firstLine = text.slice(0, text.search(/\r?\n|$/));
+  const candidates = [",", ";", "\t"];
+
+  return candidates.reduce((best, candidate) =>
+    firstLine.split(candidate).length > firstLine.split(best).length ? candidate : best
+  );
+}
+
+function uniqueHeaders(raw: string[]): string[] {
+  const seen = new Map<string, number>();
+
+  return raw.map((value, i) => {
+    const base = value.trim() || `column_${i + 1}`;
+    const count = seen.get(base) ?? 0;
+    seen.set(base, count + 1);
+    return count === 0 ? base : `${base}_${count + 1}`;
+  });
+}
@@ -0,0 +1,92 @@
+import { strFromU8, unzipSync } from "npm:fflate@0.8";
+import type { OutlineBlock } from "./outline.ts";
+
+const DOCUMENT_PART = "word/document.xml";
+const STYLES_PART = "word/styles.xml";
+
+// ---- Walk word/document.xml and classify each paragraph by its style ----
+export function extractDocxBlocks(bytes: Uint8Array): OutlineBlock[] {
+  const parts = unzipSync(bytes, {
+    filter: (entry) => entry.name === DOCUMENT_PART || entry.name === STYLES_PART,
+  });
+
+  if (!parts[DOCUMENT_PART]) {
+    throw new Error("Invalid DOCX: word/document.xml not found");
+  }
+
+  const documentXml = strFromU8(parts[DOCUMENT_PART]);
+  const headingStyles = parts[STYLES_PART]
+    ? readHeadingStyles(strFromU8(parts[STYLES_PART]))
+    : new Map<string, number>();
+
+  const blocks: OutlineBlock[] = [];
+
+  for (const [paragraph] of documentXml.matchAll(/<w:p[ >][\s\S]*?<\/w:p>/g)) {
+    const text = readParagraphText(paragraph);
+    if (!text) continue;
+
+    const level = readHeadingLevel(paragraph, headingStyles);
+    blocks.push(level ? { kind: "heading", text, level } : { kind: "paragraph", text });
+  }
+
+  return blocks;
+}
+
+// styleId -> heading level, using built-in names ("heading 1", "Title") or outline levels
+function readHeadingStyles(stylesXml: string): Map<string, number> {
+  const styles = new Map<string, number>();
+
+  for (const [style] of stylesXml.matchAll(/<w:style [^>]*w:type="paragraph"[\s\S]*?<\/w:style>/g)) {
+    const styleId = style.match(/w:styleId="([^"]+)"/)?.[1];
+    if (!styleId) continue;
+
+    const name = style.match(/<w:name w:val="([^"]+)"/)?.[1] ?? "";
+    const outline = style.match(/<w:outlineLvl w:val="(\d)"/)?.[1];
+    const level = headingLevelFromName(name) ?? (outline ? Number(outline) + 1 : undefined);
+
+    if (level) styles.set(styleId, level);
+  }
+
+  return styles;
+}
+
+function readHeadingLevel(paragraph: string, headingStyles: Map<string, number>): number | undefined {
+  const outline = paragraph.match(/<w:outlineLvl w:val="(\d)"/)?.[1];
+  if (outline) return Number(outline) + 1;
+
+  const styleId = paragraph.match(/<w:pStyle w:val="([^"]+)"/)?.[1];
+  if (!styleId) return undefined;
+
+  return headingStyles.get(styleId) ?? headingLevelFromName(styleId);
+}
+
+function headingLevelFromName(name: string): number | undefined {
+  if (/^title$/i.test(name)) return 1;
+  const match = name.match(/^heading\s*([1-9])$/i);
+  return match ? Number(match[1]) : undefined;
+}
+
+function readParagraphText(paragraph: string): string {
+  const pieces: string[] = [];
+  // Paragraph properties hold tab-stop definitions that are not content
+  const body = paragraph.replace(/<w:pPr>[\s\S]*?<\/w:pPr>/, "");
+
+  for (const [, tag, text] of body.matchAll(/<w:(t|tab|br)\b[^>]*?(?:\/>|>([\s\S]*?)<\/w:t>)/g)) {
+    if (tag === "t") pieces.push(decodeXmlEntities(text ?? ""));
+    else if (tag === "tab") pieces.push("\t");
+    else pieces.push("\n");
+  }
+
+  return pieces.join("").trim();
+}
+
+function decodeXmlEntities(text: string): string {
+  return text
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, "\"")
+    .replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, code) => String.fromCodePoint(Number(code)))
+    .replace(/&#x([0-9a-f]+);/gi, (_, code) => String.fromCodePoint(parseInt(code, 16)))
+    .replace(/&amp;/g, "&");
+}
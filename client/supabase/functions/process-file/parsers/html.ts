@@ -0,0 +1,70 @@
+import type { OutlineBlock } from "./outline.ts";
+
+const BLOCK_TAGS =
+  "p|div|li|ul|ol|tr|table|section|article|blockquote|pre|header|footer|main|nav|aside|dd|dt|dl|figure|figcaption|hr";
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: "\"",
+  apos: "'",
+  nbsp: " ",
+  ndash: "–",
+  mdash: "—",
+  hellip: "…",
+  copy: "©",
+  reg: "®",
+  lsquo: "‘",
+  rsquo: "’",
+  ldquo: "“",
+  rdquo: "”",
+};
+
+// ---- Split the body on <h1>-<h6>; text between headings becomes paragraphs ----
+export function extractHtmlBlocks(html: string): OutlineBlock[] {
+  const body = html
+    .replace(/<!--[\s\S]*?-->/g, "")
+    .replace(/<(script|style|head|noscript|template|svg)\b[\s\S]*?<\/\1\s*>/gi, "");
+
+  const blocks: OutlineBlock[] = [];
+  let cursor = 0;
+
+  for (const match of body.matchAll(/<h([1-6])\b[^>]*>([\s\S]*?)<\/h\1\s*>/gi)) {
+    blocks.push(...toParagraphs(body.slice(cursor, match.index)));
+
+    const text = toPlainText(match[2]).replace(/\s+/g, " ").trim();
+    if (text) blocks.push({ kind: "heading", text, level: Number(match[1]) });
+
+    cursor = (match.index ?? 0) + match[0].length;
+  }
+
+  blocks.push(...toParagraphs(body.slice(cursor)));
+  return blocks;
+}
+
+function toParagraphs(fragment: string): OutlineBlock[] {
+  const withBreaks = fragment
+    .replace(new RegExp(`<\\/?(?:${BLOCK_TAGS})\\b[^>]*>`, "gi"), "\n\n")
+    .replace(/<br\s*\/?>/gi, "\n");
+
+  return toPlainText(withBreaks)
+    .split(/\n\s*\n/)
+    .map((paragraph) => paragraph.replace(/[ \t\n]+/g, " ").trim())
+    .filter(Boolean)
+    .map((text) => ({ kind: "paragraph", text }));
+}
+
+function toPlainText(fragment: string): string {
+  return decodeHtmlEntities(fragment.replace(/<[^>]+>/g, ""));
+}
+
+function decodeHtmlEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+    if (code[0] === "#") {
+      const point = code[1].toLowerCase() === "x" ? parseInt(code.slice(2), 16) : Number(code.slice(1));
+      return Number.isFinite(point) ? String.fromCodePoint(point) : entity;
+    }
+    return NAMED_ENTITIES[code.toLowerCase()] ?? entity;
+  });
+}
@@ -0,0 +1,54 @@
+export type JsonNode = {
+  kind: "object" | "array";
+  path: string;
+  key: string;
+  depth: number;
+  parent?: number;
+  fields: [string, string][];
+};
+
+// ---- Flatten a JSON document into container nodes; primitives stay on their parent ----
+export function walkJson(value: unknown): JsonNode[] {
+  const nodes: JsonNode[] = [];
+
+  const visit = (current: object, path: string, key: string, depth: number, parent?: number) => {
+    const index = nodes.length;
+    const node: JsonNode = {
+      kind: Array.isArray(current) ? "array" : "object",
+      path,
+      key,
+      depth,
+      parent,
+      fields: [],
+    };
+    nodes.push(node);
+
+    const entries: [string, unknown][] = Array.isArray(current)
+      ? current.map((item, i) => [String(i), item])
+      : Object.entries(current);
+
+    for (const [childKey, child] of entries) {
+      const childPath = Array.isArray(current)
+        ? `${path}[${childKey}]`
+        : `${path}${formatPropertyAccess(childKey)}`;
+
+      if (child !== null && typeof child === "object") {
+        visit(child, childPath, Array.isArray(current) ? `${key}[${childKey}]` : childKey, depth + 1, index);
+      } else {
+        node.fields.push([childKey, String(child)]);
+      }
+    }
+  };
+
+  if (value !== null && typeof value === "object") {
+    visit(value, "$", "$", 0);
+  } else {
+    nodes.push({ kind: "object", path: "$", key: "$", depth: 0, fields: [["value", String(value)]] });
+  }
+
+  return nodes;
+}
+
+function formatPropertyAccess(key: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(key) ? `.${key}` : `[${JSON.stringify(key)}]`;
+}
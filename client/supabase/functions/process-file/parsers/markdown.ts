@@ -0,0 +1,79 @@
+import type { OutlineBlock } from "./outline.ts";
+
+// ---- ATX (#) and setext (===/---) headings; fenced code stays one paragraph ----
+export function extractMarkdownBlocks(text: string): OutlineBlock[] {
+  const lines = text.replace(/\r\n?/g, "\n").split("\n");
+  const blocks: OutlineBlock[] = [];
+  let paragraph: string[] = [];
+  let fence: string | undefined;
+
+  const flush = () => {
+    const body = paragraph.join("\n").trim();
+    if (body) blocks.push({ kind: "paragraph", text: body });
+    paragraph = [];
+  };
+
+  let start = 0;
+  // YAML front matter is metadata, not content
+  if (lines[0]?.trim() === "---") {
+    const end = lines.findIndex((line, i) => i > 0 && line.trim() === "---");
+    if (end > 0) start = end + 1;
+  }
+
+  for (let i = start; i < lines.length; i++) {
+    const line = lines[i];
+
+    if (fence) {
+      paragraph.push(line);
+      if (line.trim().startsWith(fence)) {
+        fence = undefined;
+        flush();
+      }
+      continue;
+    }
+
+    const fenceOpen = line.match(/^\s{0,3}(`{3,}|~{3,})/);
+    if (fenceOpen) {
+      flush();
+      fence = fenceOpen[1];
+      paragraph.push(line);
+      continue;
+    }
+
+    const atx = line.match(/^\s{0,3}(#{1,6})\s+(.*?)(?:\s+#+)?\s*$/);
+    if (atx) {
+      flush();
+      blocks.push({ kind: "heading", text: cleanInline(atx[2]), level: atx[1].length });
+      continue;
+    }
+
+    const setext = lines[i + 1]?.match(/^\s{0,3}(=+|-+)\s*$/);
+    if (setext && line.trim() && paragraph.length === 0) {
+      blocks.push({
+        kind: "heading",
+        text: cleanInline(line.trim()),
+        level: setext[1].startsWith("=") ? 1 : 2,
+      });
+      i++;
+      continue;
+    }
+
+    if (!line.trim()) {
+      flush();
+      continue;
+    }
+
+    paragraph.push(line);
+  }
+
+  flush();
+  return blocks;
+}
+
+// Strip emphasis, inline code and link targets from heading text
+function cleanInline(text: string): string {
+  return text
+    .replace(/!?\[([^\]]*)\]\([^)]*\)/g, "$1")
+    .replace(/[*_`]+/g, "")
+    .trim();
+}
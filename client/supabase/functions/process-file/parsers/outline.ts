@@ -0,0 +1,4 @@
+// Flat sequence of headings and body paragraphs shared by document-style parsers
+export type OutlineBlock =
+  | { kind: "heading"; text: string; level: number }
+  | { kind: "paragraph"; text: string };
@@ -0,0 +1,19 @@
+import { extractText, getDocumentProxy } from "npm:unpdf@1";
+
+export type PdfPage = {
+  pageNumber: number;
+  text: string;
+};
+
+// ---- Extract text per page; empty pages (e.g. scanned images) are dropped ----
+export async function extractPdfPages(bytes: Uint8Array): Promise<PdfPage[]> {
+  const pdf = await getDocumentProxy(bytes);
+  const { text } = await extractText(pdf, { mergePages: false });
+
+  return text
+    .map((pageText, i) => ({
+      pageNumber: i + 1,
+      text: pageText.replace(/[ \t]+/g, " ").replace(/\n{3,}/g, "\n\n").trim(),
+    }))
+    .filter((page) => page.text.length > 0);
+}
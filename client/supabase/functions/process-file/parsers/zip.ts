@@ -0,0 +1,61 @@
+import { unzipSync } from "npm:fflate@0.8";
+
+export type ArchiveEntry = {
+  // Forward-slash path inside the archive, without a leading slash
+  path: string;
+  bytes: Uint8Array;
+};
+
+export type ArchiveLimits = {
+  maxEntries: number;
+  maxEntryBytes: number;
+  maxTotalBytes: number;
+};
+
+// ---- Unpack the files worth ingesting, refusing archives that expand past the limits ----
+export function readArchiveEntries(
+  bytes: Uint8Array,
+  accept: (path: string) => boolean,
+  limits: ArchiveLimits
+): ArchiveEntry[] {
+  let count = 0;
+  let totalBytes = 0;
+
+  // The filter sees each entry's declared size before it is inflated
+  const files = unzipSync(bytes, {
+    filter: (entry) => {
+      const path = normalizeEntryPath(entry.name);
+      if (!path || !accept(path)) return false;
+
+      if (entry.originalSize > limits.maxEntryBytes) {
+        throw new Error(`${path} is larger than ${limits.maxEntryBytes / 1024 / 1024} MB`);
+      }
+
+      count += 1;
+      totalBytes += entry.originalSize;
+      if (count > limits.maxEntries) {
+        throw new Error(`Archive contains more than ${limits.maxEntries} supported files`);
+      }
+      if (totalBytes > limits.maxTotalBytes) {
+        throw new Error(`Archive expands to more than ${limits.maxTotalBytes / 1024 / 1024} MB`);
+      }
+      return true;
+    },
+  });
+
+  return Object.entries(files)
+    .map(([name, data]) => ({ path: normalizeEntryPath(name)!, bytes: data }))
+    .sort((a, b) => a.path.localeCompare(b.path));
+}
+
+// Directory entries, OS metadata and hidden files are skipped (null)
+function normalizeEntryPath(name: string): string | null {
+  const path = name.replace(/\\/g, "/").replace(/^\/+/, "");
+  if (!path || path.endsWith("/")) return null;
+
+  const segments = path.split("/");
+  if (segments.some((segment) => segment === ".." || segment.startsWith(".") || segment === "__MACOSX")) {
+    return null;
+  }
+  return path;
+}
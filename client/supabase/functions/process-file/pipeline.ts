@@ -0,0 +1,697 @@
+import type { SupabaseClient } from "jsr:@supabase/supabase-js@2";
+import { type EmbeddingProvider, getEmbeddingProvider } from "../_shared/embeddings.ts";
+import { parseChunkingOptions } from "./chunking.ts";
+import {
+  archiveToDocument,
+  type ExtractedDocument,
+  extractDocument,
+  isArchive,
+  isSupportedFileName,
+  rootChunkIndexes,
+} from "./extract.ts";
+import { type ArchiveEntry, readArchiveEntries } from "./parsers/zip.ts";
+import { type LiveNode, planVersion, type VersionPlan } from "./versioning.ts";
+
+export type IngestionStage = "download" | "chunk" | "embed" | "link" | "done";
+
+export const STAGE_ORDER: IngestionStage[] = ["download", "chunk", "embed", "link", "done"];
+
+export type JobOptions = {
+  fileName: string;
+  fileType?: string;
+  // Rows sharing a value in this column are linked. Files unpacked from an
+  // archive inherit it; a CSV among them without the column is left unlinked.
+  csvKeyColumn?: string;
+  // Files unpacked from an archive inherit this and crossDocument
+  chunking?: unknown;
+  // Set for files unpacked from an archive: the archive's file node that contains this file
+  archiveNodeId?: string;
+  // File version this job ingests; versions after the first only store what changed
+  version?: number;
+  // Link chunks to the top-k similar chunks in other files (the collection's, or all of them)
+  // even when the collection does not link its files itself
+  crossDocument?: { k?: number };
+  // Only rebuild the file's cross-document edges: the job starts at the link
+  // stage and leaves the file's status alone
+  linkOnly?: boolean;
+};
+
+export type IngestionJob = {
+  id: string;
+  file_id: string;
+  status: "queued" | "running" | "completed" | "failed";
+  stage: IngestionStage;
+  options: JobOptions;
+  progress: Record<string, unknown>;
+  attempts: number;
+  max_attempts: number;
+  error: string | null;
+};
+
+export type StageProgress = Record<string, unknown>;
+
+// Problems with the file itself; retrying the stage cannot fix them
+export class NonRetryableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "NonRetryableError";
+  }
+}
+
+type EdgeInsert = {
+  source_node_id: string;
+  target_node_id: string;
+  edge_type: string;
+  weight: number;
+  metadata: Record<string, unknown>;
+  version?: number;
+};
+
+type LiveEdge = { id: string; source_node_id: string; target_node_id: string; edge_type: string };
+
+// Edge types computed after chunking; every other type comes from the extraction
+const COMPUTED_EDGE_TYPES = ["semantic", "cross_document"];
+
+// Upper bounds that keep each stage inside the edge-function CPU/wall-clock
+// limits. The chunk cap is the one that binds: at the default 500-character
+// chunks with 50 overlap it is reached at ~1.1 MB of text, so a 5 MB text file
+// needs chunks of ~2,100 characters or more. The worst case a stage sees is
+// 2,500 chunks of up to 4,000 characters (~10 MB of text, e.g. from a
+// compressed DOCX), which the local provider embeds in a few seconds of CPU.
+export const MAX_FILE_BYTES = 5 * 1024 * 1024;
+const MAX_CHUNKS = 2500;
+// An archive is only unpacked, never chunked, so it may be as large as the
+// files inside it together; stored (uncompressed) entries make it that large
+export const MAX_ARCHIVE_BYTES = 50 * 1024 * 1024;
+
+// Archives are checked against these before anything is inflated
+const ARCHIVE_LIMITS = {
+  maxEntries: 200,
+  maxEntryBytes: MAX_FILE_BYTES,
+  maxTotalBytes: MAX_ARCHIVE_BYTES,
+};
+
+const NODE_BATCH_SIZE = 200;
+const EDGE_BATCH_SIZE = 1000;
+const EMBED_BATCH_SIZE = 200;
+// content_hash values / node ids per `in` filter, keeping the PostgREST URL short
+const HASH_LOOKUP_BATCH_SIZE = 100;
+const ID_BATCH_SIZE = 100;
+// PostgREST returns at most this many rows per request by default
+const PAGE_SIZE = 1000;
+const SEMANTIC_NEIGHBOURS = 5;
+const MAX_CROSS_DOCUMENT_NEIGHBOURS = 20;
+
+// Cross-file neighbours per chunk for an upload that asked for them, or null
+export function crossDocumentNeighbours(crossDocument: JobOptions["crossDocument"]): number | null {
+  if (!crossDocument) return null;
+  return Math.min(Math.max(Math.round(crossDocument.k ?? SEMANTIC_NEIGHBOURS), 1), MAX_CROSS_DOCUMENT_NEIGHBOURS);
+}
+
+// ---- Run the job's current stage; every stage is safe to re-run after a failure ----
+export function runStage(
+  supabase: SupabaseClient,
+  job: IngestionJob,
+  report: (progress: StageProgress) => Promise<void>
+): Promise<StageProgress> {
+  switch (job.stage) {
+    case "download":
+      return downloadStage(supabase, job);
+    case "chunk":
+      return chunkStage(supabase, job, report);
+    case "embed":
+      return embedStage(supabase, job, report);
+    case "link":
+      return linkStage(supabase, job);
+    default:
+      throw new NonRetryableError(`Job ${job.id} has no stage left to run`);
+  }
+}
+
+// ---- DOWNLOAD: make sure the object exists and is within limits ----
+async function downloadStage(supabase: SupabaseClient, job: IngestionJob): Promise<StageProgress> {
+  const file = await downloadFile(supabase, job.options.fileName, job.options.fileType);
+
+  // The uploader sends a hash too, but unpacked archive entries and older rows rely on this one
+  const contentHash = await sha256Hex(await file.arrayBuffer());
+  const { error } = await supabase.from("files").update({ content_hash: contentHash }).eq("id", job.file_id);
+  if (error) throw new Error(`Failed to record content hash: ${error.message}`);
+
+  const { error: versionError } = await supabase
+    .from("file_versions")
+    .update({ content_hash: contentHash })
+    .eq("file_id", job.file_id)
+    .eq("version", job.options.version ?? 1);
+  if (versionError) throw new Error(`Failed to record content hash: ${versionError.message}`);
+
+  return { bytes: file.size, contentHash };
+}
+
+// ---- CHUNK: parse the file and store nodes (without embeddings) and structural edges ----
+async function chunkStage(
+  supabase: SupabaseClient,
+  job: IngestionJob,
+  report: (progress: StageProgress) => Promise<void>
+): Promise<StageProgress> {
+  const { fileName, fileType, csvKeyColumn, chunking, archiveNodeId } = job.options;
+  const file = await downloadFile(supabase, fileName, fileType);
+
+  if (isArchive(fileName, fileType)) {
+    return unpackArchive(supabase, job, file, report);
+  }
+
+  let extracted;
+  try {
+    extracted = await extractDocument(file, fileName, fileType, {
+      csvKeyColumn,
+      optionalKeyColumn: Boolean(archiveNodeId),
+      chunking: parseChunkingOptions(chunking),
+    });
+  } catch (err) {
+    throw new NonRetryableError(err instanceof Error ? err.message : String(err));
+  }
+
+  if (extracted.chunks.length === 0) {
+    throw new NonRetryableError("No extractable text found in file");
+  }
+
+  if (extracted.chunks.length > MAX_CHUNKS) {
+    throw new NonRetryableError(
+      `File produced ${extracted.chunks.length} chunks; the limit is ${MAX_CHUNKS}. Split the file or use a larger chunk size.`
+    );
+  }
+
+  const version = job.options.version ?? 1;
+  const hashes = await Promise.all(
+    extracted.chunks.map((chunk) => sha256Hex(new TextEncoder().encode(chunk.content)))
+  );
+
+  let plan: VersionPlan | undefined;
+  if (version === 1) {
+    await clearNodes(supabase, job.file_id);
+  } else {
+    plan = planVersion(await resetToPreviousVersion(supabase, job.file_id, version), extracted.chunks, hashes);
+    await markSuperseded(supabase, plan.superseded, version);
+  }
+
+  const { nodeIds, counts } = await insertGraph(supabase, job.file_id, extracted, report, { version, hashes, plan });
+
+  // Corpus-weighted vectors depend on the IDF of the whole version, so nodes
+  // carried over unchanged are embedded again next to the new ones
+  if (plan && getEmbeddingProvider().usesCorpus) {
+    await clearEmbeddings(supabase, plan.existing.filter((id): id is string => Boolean(id)));
+  }
+
+  // Hang the file's new top-level nodes off its file node in the archive's folder tree
+  if (archiveNodeId) {
+    await insertEdges(
+      supabase,
+      rootChunkIndexes(extracted).filter((i) => !plan?.existing[i]).map((i) => ({
+        source_node_id: archiveNodeId,
+        target_node_id: nodeIds[i],
+        edge_type: "contains",
+        weight: 1,
+        metadata: {},
+      }))
+    );
+  }
+
+  return counts;
+}
+
+// ---- CHUNK (archives): folder/file nodes, then one files row and queued job per entry ----
+async function unpackArchive(
+  supabase: SupabaseClient,
+  job: IngestionJob,
+  archive: Blob,
+  report: (progress: StageProgress) => Promise<void>
+): Promise<StageProgress> {
+  let entries: ArchiveEntry[];
+  try {
+    entries = readArchiveEntries(new Uint8Array(await archive.arrayBuffer()), isSupportedFileName, ARCHIVE_LIMITS);
+  } catch (err) {
+    throw new NonRetryableError(`Invalid archive: ${err instanceof Error ? err.message : String(err)}`);
+  }
+
+  if (entries.length === 0) {
+    throw new NonRetryableError("Archive contains no supported files");
+  }
+
+  const { data: archiveFile, error: archiveError } = await supabase
+    .from("files")
+    .select("filename")
+    .eq("id", job.file_id)
+    .single();
+  if (archiveError) throw new Error(`Failed to load archive record: ${archiveError.message}`);
+
+  // A previous attempt may have unpacked part of the archive; nodes and jobs cascade with the files
+  const { error: cleanupError } = await supabase.from("files").delete().eq("parent_file_id", job.file_id);
+  if (cleanupError) throw new Error(`Failed to clear previously unpacked files: ${cleanupError.message}`);
+  await clearNodes(supabase, job.file_id);
+
+  const archiveName = archiveFile.filename.replace(/\.zip$/i, "");
+  const extracted = archiveToDocument(archiveName, entries.map((entry) => entry.path));
+  const fileIds = entries.map(() => crypto.randomUUID());
+  extracted.fileChunks.forEach((chunk, i) => {
+    extracted.chunks[chunk].metadata.fileId = fileIds[i];
+  });
+
+  // Archives are always unpacked from scratch; earlier versions are not kept
+  const { nodeIds, counts } = await insertGraph(supabase, job.file_id, extracted, report, {
+    version: job.options.version ?? 1,
+  });
+  const progress = { ...counts, files: entries.length, filesUploaded: 0 };
+
+  const storagePrefix = job.options.fileName.replace(/\.zip$/i, "");
+  for (const entry of entries) {
+    const { error } = await supabase.storage
+      .from("uploads")
+      .upload(`${storagePrefix}/${entry.path}`, entry.bytes, { upsert: true });
+    if (error) throw new Error(`Failed to store ${entry.path}: ${error.message}`);
+
+    progress.filesUploaded += 1;
+    await report(progress);
+  }
+
+  const { error: filesError } = await supabase.from("files").insert(
+    entries.map((entry, i) => ({
+      id: fileIds[i],
+      parent_file_id: job.file_id,
+      filename: `${archiveName}/${entry.path}`,
+      file_path: `${storagePrefix}/${entry.path}`,
+      file_size: entry.bytes.length,
+      cross_document_k: crossDocumentNeighbours(job.options.crossDocument),
+      status: "processing",
+    }))
+  );
+  if (filesError) throw new Error(`Failed to record unpacked files: ${filesError.message}`);
+
+  const { error: jobsError } = await supabase.from("ingestion_jobs").insert(
+    entries.map((_, i) => ({
+      file_id: fileIds[i],
+      options: {
+        fileName: `${storagePrefix}/${entries[i].path}`,
+        // The archive's fileType is not forwarded; entries are detected by name
+        csvKeyColumn: job.options.csvKeyColumn,
+        chunking: job.options.chunking,
+        crossDocument: job.options.crossDocument,
+        archiveNodeId: nodeIds[extracted.fileChunks[i]],
+        // Unpacked files are created afresh, so this is their first version
+        version: 1,
+      },
+    }))
+  );
+  if (jobsError) throw new Error(`Failed to queue unpacked files: ${jobsError.message}`);
+
+  return progress;
+}
+
+// ---- Undo a failed attempt at `version`, then return the nodes current before it ----
+async function resetToPreviousVersion(
+  supabase: SupabaseClient,
+  fileId: string,
+  version: number
+): Promise<LiveNode[]> {
+  const { error: deleteError } = await supabase
+    .from("nodes")
+    .delete()
+    .eq("file_id", fileId)
+    .eq("version", version);
+  if (deleteError) throw new Error(`Failed to clear previous attempt: ${deleteError.message}`);
+
+  const { error: restoreError } = await supabase
+    .from("nodes")
+    .update({ superseded_in: null })
+    .eq("file_id", fileId)
+    .eq("superseded_in", version);
+  if (restoreError) throw new Error(`Failed to restore superseded nodes: ${restoreError.message}`);
+
+  const { error: edgesError } = await supabase.rpc("reset_version_edges", { p_file_id: fileId, p_version: version });
+  if (edgesError) throw new Error(`Failed to restore previous edges: ${edgesError.message}`);
+
+  return selectAllRows<LiveNode>((from, to) =>
+    supabase
+      .from("nodes")
+      .select("id, node_type, content_hash, metadata")
+      .eq("file_id", fileId)
+      .is("superseded_in", null)
+      .order("id")
+      .range(from, to)
+  );
+}
+
+async function markSuperseded(supabase: SupabaseClient, nodeIds: string[], version: number) {
+  for (let i = 0; i < nodeIds.length; i += ID_BATCH_SIZE) {
+    const { error } = await supabase
+      .from("nodes")
+      .update({ superseded_in: version })
+      .in("id", nodeIds.slice(i, i + ID_BATCH_SIZE));
+    if (error) throw new Error(`Failed to supersede nodes: ${error.message}`);
+  }
+}
+
+// The embed stage picks these nodes up again, since their embedding_model is NULL
+async function clearEmbeddings(supabase: SupabaseClient, nodeIds: string[]) {
+  for (let i = 0; i < nodeIds.length; i += ID_BATCH_SIZE) {
+    const { error } = await supabase
+      .from("nodes")
+      .update({ embedding: null, embedding_provider: null, embedding_model: null })
+      .in("id", nodeIds.slice(i, i + ID_BATCH_SIZE));
+    if (error) throw new Error(`Failed to reset embeddings: ${error.message}`);
+  }
+}
+
+// Edges cascade with nodes, so this also removes a previous attempt's edges
+async function clearNodes(supabase: SupabaseClient, fileId: string) {
+  const { error } = await supabase.from("nodes").delete().eq("file_id", fileId);
+  if (error) throw new Error(`Failed to clear previous nodes: ${error.message}`);
+}
+
+// ---- Insert extracted chunks and their structural edges in batches ----
+// With a version plan, chunks matching an unchanged node reuse it: its
+// metadata is rewritten for its new place, and structural edges between
+// reused nodes are compared with the extraction, inserting the missing ones
+// and retiring those the new version no longer has.
+async function insertGraph(
+  supabase: SupabaseClient,
+  fileId: string,
+  { chunks, edges: structuralEdges }: ExtractedDocument,
+  report: (progress: StageProgress) => Promise<void>,
+  options: { version?: number; hashes?: string[]; plan?: VersionPlan } = {}
+) {
+  const { version = 1, plan } = options;
+  const hashes = options.hashes ??
+    await Promise.all(chunks.map((chunk) => sha256Hex(new TextEncoder().encode(chunk.content))));
+
+  // IDs are generated here so structural edges can be built without reading rows back
+  const nodeIds = chunks.map((_, i) => plan?.existing[i] ?? crypto.randomUUID());
+  const isNew = (i: number) => !plan?.existing[i];
+
+  const nodeRows = chunks.flatMap((chunk, i) =>
+    isNew(i)
+      ? [{
+        id: nodeIds[i],
+        file_id: fileId,
+        node_type: chunk.nodeType,
+        content: chunk.content,
+        content_hash: hashes[i],
+        metadata: chunk.metadata,
+        version,
+        supersedes: plan?.supersedes[i] ?? null,
+      }]
+      : []
+  );
+
+  const reusedIds = nodeIds.filter((_, i) => !isNew(i));
+  const liveEdges = plan ? await loadLiveStructuralEdges(supabase, reusedIds) : [];
+  const edgeKey = (source: string, target: string, edgeType: string) => `${source}>${target}:${edgeType}`;
+  const liveKeys = new Set(liveEdges.map((edge) => edgeKey(edge.source_node_id, edge.target_node_id, edge.edge_type)));
+
+  const edges: EdgeInsert[] = structuralEdges
+    .filter((edge) =>
+      isNew(edge.source) || isNew(edge.target) ||
+      !liveKeys.has(edgeKey(nodeIds[edge.source], nodeIds[edge.target], edge.edgeType))
+    )
+    .map((edge) => ({
+      source_node_id: nodeIds[edge.source],
+      target_node_id: nodeIds[edge.target],
+      edge_type: edge.edgeType,
+      weight: edge.weight,
+      metadata: edge.metadata ?? {},
+      version,
+    }));
+
+  const wantedKeys = new Set(
+    structuralEdges.map((edge) => edgeKey(nodeIds[edge.source], nodeIds[edge.target], edge.edgeType))
+  );
+  const staleEdgeIds = liveEdges
+    .filter((edge) => !wantedKeys.has(edgeKey(edge.source_node_id, edge.target_node_id, edge.edge_type)))
+    .map((edge) => edge.id);
+
+  const unchanged = chunks.length - nodeRows.length;
+  const counts = {
+    chunks: chunks.length,
+    structuralEdges: edges.length,
+    // Unchanged nodes count as already in place
+    nodesInserted: unchanged,
+    edgesInserted: 0,
+    ...(plan && {
+      version,
+      unchanged,
+      changed: plan.supersedes.filter(Boolean).length,
+      superseded: plan.superseded.length,
+      edgesRetired: staleEdgeIds.length,
+    }),
+  };
+  await report(counts);
+
+  for (let i = 0; i < nodeRows.length; i += NODE_BATCH_SIZE) {
+    const batch = nodeRows.slice(i, i + NODE_BATCH_SIZE);
+    const { error } = await supabase.from("nodes").insert(batch);
+    if (error) throw new Error(`Failed to insert nodes: ${error.message}`);
+
+    counts.nodesInserted += batch.length;
+    await report(counts);
+  }
+
+  if (plan) {
+    await updateNodeMetadata(
+      supabase,
+      chunks.flatMap((chunk, i) => (isNew(i) ? [] : [{ id: nodeIds[i], metadata: chunk.metadata }]))
+    );
+    await retireEdges(supabase, staleEdgeIds, version);
+  }
+
+  await insertEdges(supabase, edges, async (inserted) => {
+    counts.edgesInserted += inserted;
+    await report(counts);
+  });
+
+  return { nodeIds, counts };
+}
+
+// Current structural edges whose both ends are among `nodeIds`
+async function loadLiveStructuralEdges(supabase: SupabaseClient, nodeIds: string[]): Promise<LiveEdge[]> {
+  const ids = new Set(nodeIds);
+  const edges: LiveEdge[] = [];
+
+  for (let i = 0; i < nodeIds.length; i += ID_BATCH_SIZE) {
+    const batch = await selectAllRows<LiveEdge>((from, to) =>
+      supabase
+        .from("edges")
+        .select("id, source_node_id, target_node_id, edge_type")
+        .in("source_node_id", nodeIds.slice(i, i + ID_BATCH_SIZE))
+        .not("edge_type", "in", `(${COMPUTED_EDGE_TYPES.join(",")})`)
+        .is("superseded_in", null)
+        .order("id")
+        .range(from, to)
+    );
+    edges.push(...batch.filter((edge) => ids.has(edge.target_node_id)));
+  }
+
+  return edges;
+}
+
+async function updateNodeMetadata(
+  supabase: SupabaseClient,
+  nodes: { id: string; metadata: Record<string, unknown> }[]
+) {
+  for (let i = 0; i < nodes.length; i += NODE_BATCH_SIZE) {
+    const { error } = await supabase.rpc("update_node_metadata", { p_nodes: nodes.slice(i, i + NODE_BATCH_SIZE) });
+    if (error) throw new Error(`Failed to update node metadata: ${error.message}`);
+  }
+}
+
+// Older versions still traverse retired edges
+async function retireEdges(supabase: SupabaseClient, edgeIds: string[], version: number) {
+  for (let i = 0; i < edgeIds.length; i += ID_BATCH_SIZE) {
+    const { error } = await supabase
+      .from("edges")
+      .update({ superseded_in: version })
+      .in("id", edgeIds.slice(i, i + ID_BATCH_SIZE));
+    if (error) throw new Error(`Failed to retire edges: ${error.message}`);
+  }
+}
+
+async function insertEdges(
+  supabase: SupabaseClient,
+  edges: EdgeInsert[],
+  onBatch?: (inserted: number) => Promise<void>
+) {
+  for (let i = 0; i < edges.length; i += EDGE_BATCH_SIZE) {
+    const batch = edges.slice(i, i + EDGE_BATCH_SIZE);
+    const { error } = await supabase.from("edges").insert(batch);
+    if (error) throw new Error(`Failed to insert edges: ${error.message}`);
+
+    await onBatch?.(batch.length);
+  }
+}
+
+// ---- EMBED: fill in missing embeddings batch by batch, so a retry resumes where it stopped ----
+async function embedStage(
+  supabase: SupabaseClient,
+  job: IngestionJob,
+  report: (progress: StageProgress) => Promise<void>
+): Promise<StageProgress> {
+  // Only the current version's nodes; superseded ones keep their vectors
+  const nodes = await selectAllRows<{
+    id: string;
+    file_id: string;
+    node_type: string;
+    content: string;
+    content_hash: string | null;
+    metadata: Record<string, unknown>;
+    embedding_model: string | null;
+  }>((from, to) =>
+    supabase
+      .from("nodes")
+      .select("id, file_id, node_type, content, content_hash, metadata, embedding_model")
+      .eq("file_id", job.file_id)
+      .is("superseded_in", null)
+      .order("id")
+      .range(from, to)
+  );
+
+  const embedder = getEmbeddingProvider();
+  const corpus = nodes.map((node) => node.content);
+  const pending = nodes.filter((node) => node.embedding_model === null);
+  const sourceFileIds = embedder.usesCorpus ? await identicalFileIds(supabase, job.file_id) : null;
+  let embedded = nodes.length - pending.length;
+  let reused = 0;
+  await report({ embedded, reused, total: nodes.length });
+
+  for (let i = 0; i < pending.length; i += EMBED_BATCH_SIZE) {
+    const batch = pending.slice(i, i + EMBED_BATCH_SIZE);
+    const known = await findReusableEmbeddings(supabase, job.file_id, batch, embedder, sourceFileIds);
+    const toEmbed = batch.filter((node) => !known.has(node.content_hash ?? ""));
+    const embeddings = toEmbed.length
+      ? await embedder.embedDocuments(toEmbed.map((node) => node.content), corpus)
+      : [];
+    const computed = new Map(toEmbed.map((node, j) => [node.id, embeddings[j]]));
+
+    const { error: upsertError } = await supabase.from("nodes").upsert(
+      batch.map(({ embedding_model: _, ...node }) => ({
+        ...node,
+        embedding: computed.get(node.id) ?? known.get(node.content_hash ?? ""),
+        embedding_provider: embedder.name,
+        embedding_model: embedder.model,
+      }))
+    );
+    if (upsertError) throw new Error(`Failed to store embeddings: ${upsertError.message}`);
+
+    embedded += batch.length;
+    reused += batch.length - toEmbed.length;
+    await report({ embedded, reused, total: nodes.length });
+  }
+
+  return { embedded, reused, total: nodes.length, provider: embedder.name, model: embedder.model };
+}
+
+// Other files with exactly the same bytes; corpus-weighted vectors are only portable between them
+async function identicalFileIds(supabase: SupabaseClient, fileId: string): Promise<string[]> {
+  const { data: file, error } = await supabase.from("files").select("content_hash").eq("id", fileId).single();
+  if (error) throw new Error(`Failed to load file hash: ${error.message}`);
+  if (!file.content_hash) return [];
+
+  const { data: twins, error: twinsError } = await supabase
+    .from("files")
+    .select("id")
+    .eq("content_hash", file.content_hash)
+    .neq("id", fileId);
+  if (twinsError) throw new Error(`Failed to look up identical files: ${twinsError.message}`);
+
+  return twins.map((twin) => twin.id);
+}
+
+// ---- Vectors of identical chunks already embedded elsewhere in the same embedding space ----
+async function findReusableEmbeddings(
+  supabase: SupabaseClient,
+  fileId: string,
+  nodes: { content_hash: string | null }[],
+  embedder: EmbeddingProvider,
+  sourceFileIds: string[] | null
+): Promise<Map<string, unknown>> {
+  const known = new Map<string, unknown>();
+  const hashes = [...new Set(nodes.map((node) => node.content_hash).filter((hash): hash is string => !!hash))];
+  if (hashes.length === 0 || sourceFileIds?.length === 0) return known;
+
+  for (let i = 0; i < hashes.length; i += HASH_LOOKUP_BATCH_SIZE) {
+    let query = supabase
+      .from("nodes")
+      .select("content_hash, embedding")
+      .in("content_hash", hashes.slice(i, i + HASH_LOOKUP_BATCH_SIZE))
+      .neq("file_id", fileId)
+      .eq("embedding_provider", embedder.name)
+      .eq("embedding_model", embedder.model)
+      .not("embedding", "is", null);
+    if (sourceFileIds) query = query.in("file_id", sourceFileIds);
+
+    const { data, error } = await query;
+    if (error) throw new Error(`Failed to look up existing embeddings: ${error.message}`);
+
+    // The vector is passed back exactly as PostgREST returned it
+    for (const row of data) known.set(row.content_hash, row.embedding);
+  }
+
+  return known;
+}
+
+// ---- LINK: top-k semantic neighbours computed by pgvector ----
+async function linkStage(supabase: SupabaseClient, job: IngestionJob): Promise<StageProgress> {
+  let semanticEdges = 0;
+  if (!job.options.linkOnly) {
+    const { data, error } = await supabase.rpc("create_semantic_edges", {
+      p_file_id: job.file_id,
+      p_k: SEMANTIC_NEIGHBOURS,
+    });
+    if (error) throw new Error(`Failed to create semantic edges: ${error.message}`);
+    semanticEdges = data ?? 0;
+  }
+
+  // A no-op unless the upload asked for it (recorded on the file, so relinks
+  // honour it too) or the file's collection links its files
+  const { data: crossDocumentEdges, error: crossError } = await supabase.rpc("create_cross_document_edges", {
+    p_file_id: job.file_id,
+    p_k: crossDocumentNeighbours(job.options.crossDocument) ?? SEMANTIC_NEIGHBOURS,
+  });
+  if (crossError) throw new Error(`Failed to create cross-document edges: ${crossError.message}`);
+
+  return { semanticEdges, crossDocumentEdges: crossDocumentEdges ?? 0 };
+}
+
+async function downloadFile(supabase: SupabaseClient, fileName: string, fileType?: string): Promise<Blob> {
+  const { data: file, error } = await supabase.storage.from("uploads").download(fileName);
+
+  if (error || !file) {
+    throw new Error(`Failed to download ${fileName}: ${error?.message ?? "empty file"}`);
+  }
+
+  const archive = isArchive(fileName, fileType);
+  const maxBytes = archive ? MAX_ARCHIVE_BYTES : MAX_FILE_BYTES;
+  if (file.size > maxBytes) {
+    throw new NonRetryableError(
+      `${archive ? "Archive" : "File"} is ${(file.size / 1024 / 1024).toFixed(1)} MB; the limit is ${maxBytes / 1024 / 1024} MB`
+    );
+  }
+
+  return file;
+}
+
+async function sha256Hex(data: BufferSource): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", data);
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, "0")).join("");
+}
+
+// ---- Read every row of a query page by page ----
+async function selectAllRows<T>(
+  page: (from: number, to: number) => PromiseLike<{ data: unknown[] | null; error: { message: string } | null }>
+): Promise<T[]> {
+  const rows: T[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await page(from, from + PAGE_SIZE - 1);
+    if (error) throw new Error(`Failed to load rows: ${error.message}`);
+
+    rows.push(...(data as T[]));
+    if (!data || data.length < PAGE_SIZE) return rows;
+  }
+}
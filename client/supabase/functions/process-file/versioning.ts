@@ -0,0 +1,54 @@
+import type { ExtractedChunk } from "./extract.ts";
+
+// A node still current in the previous version
+export type LiveNode = {
+  id: string;
+  node_type: string;
+  content_hash: string | null;
+  metadata: Record<string, unknown> | null;
+};
+
+export type VersionPlan = {
+  // Per chunk: the live node it matches unchanged, if any
+  existing: (string | undefined)[];
+  // Per chunk: for new chunks, the removed node it replaces, if any
+  supersedes: (string | undefined)[];
+  // Live nodes with no unchanged counterpart in the new version
+  superseded: string[];
+};
+
+// ---- Match a new version's chunks against the current nodes ----
+// Identical chunks (same type and content hash) keep their node, so they keep
+// their edges and, unless the embedding provider is corpus-weighted, their
+// embedding. Leftover old nodes are superseded, and each new
+// chunk is paired with a superseded node at the same place in the document
+// (same type and path/heading) so the diff can report it as changed.
+export function planVersion(live: LiveNode[], chunks: ExtractedChunk[], hashes: string[]): VersionPlan {
+  const unchanged = new Map<string, string[]>();
+  for (const node of live) {
+    const key = `${node.node_type}:${node.content_hash}`;
+    unchanged.set(key, [...(unchanged.get(key) ?? []), node.id]);
+  }
+
+  const existing = chunks.map((chunk, i) => unchanged.get(`${chunk.nodeType}:${hashes[i]}`)?.shift());
+  const kept = new Set(existing.filter((id): id is string => id !== undefined));
+  const removed = live.filter((node) => !kept.has(node.id));
+
+  const replaceable = new Map<string, string[]>();
+  for (const node of removed) {
+    const key = locator(node.node_type, node.metadata);
+    replaceable.set(key, [...(replaceable.get(key) ?? []), node.id]);
+  }
+
+  const supersedes = chunks.map((chunk, i) =>
+    existing[i] ? undefined : replaceable.get(locator(chunk.nodeType, chunk.metadata))?.shift()
+  );
+
+  return { existing, supersedes, superseded: removed.map((node) => node.id) };
+}
+
+// Where a chunk sits in its document, independent of its text
+function locator(nodeType: string, metadata: Record<string, unknown> | null): string {
+  const place = metadata?.path ?? metadata?.name ?? metadata?.heading ?? metadata?.page ?? "";
+  return `${nodeType}:${String(place)}`;
+}
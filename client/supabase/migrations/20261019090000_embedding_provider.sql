@@ -0,0 +1,7 @@
+-- Record which embedding provider/model produced each node's vector so that
+-- hybrid-search can refuse to compare vectors from different embedding spaces
+ALTER TABLE public.nodes
+  ADD COLUMN embedding_provider TEXT,
+  ADD COLUMN embedding_model TEXT;
+
+CREATE INDEX idx_nodes_embedding_provider ON public.nodes(embedding_provider, embedding_model);
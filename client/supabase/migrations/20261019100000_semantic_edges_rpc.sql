@@ -0,0 +1,32 @@
+-- Top-k semantic neighbours per node, computed inside Postgres with pgvector
+-- instead of an O(n^2) similarity matrix in the edge function.
+-- Probing more ivfflat lists keeps recall reasonable when the index is shared
+-- by many files and results are filtered down to one file.
+CREATE OR REPLACE FUNCTION public.create_semantic_edges(p_file_id UUID, p_k INTEGER DEFAULT 5)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SET search_path = public
+SET ivfflat.probes = 10
+AS $$
+DECLARE
+  inserted INTEGER;
+BEGIN
+  INSERT INTO public.edges (source_node_id, target_node_id, edge_type, weight)
+  SELECT n.id, neighbour.id, 'semantic', 1 - neighbour.distance
+  FROM public.nodes n
+  CROSS JOIN LATERAL (
+    SELECT m.id, m.embedding <=> n.embedding AS distance
+    FROM public.nodes m
+    WHERE m.file_id = p_file_id
+      AND m.id <> n.id
+      AND m.embedding IS NOT NULL
+    ORDER BY m.embedding <=> n.embedding
+    LIMIT p_k
+  ) neighbour
+  WHERE n.file_id = p_file_id
+    AND n.embedding IS NOT NULL;
+
+  GET DIAGNOSTICS inserted = ROW_COUNT;
+  RETURN inserted;
+END;
+$$;
@@ -0,0 +1,90 @@
+-- Surface why a file failed to process
+ALTER TABLE public.files ADD COLUMN error_message TEXT;
+
+-- Ingestion jobs: process-file runs one stage per invocation
+-- (download -> chunk -> embed -> link -> done) and records progress here
+CREATE TABLE public.ingestion_jobs (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  file_id UUID NOT NULL REFERENCES public.files(id) ON DELETE CASCADE,
+  status TEXT NOT NULL DEFAULT 'queued',
+  stage TEXT NOT NULL DEFAULT 'download',
+  options JSONB NOT NULL DEFAULT '{}'::jsonb,
+  progress JSONB NOT NULL DEFAULT '{}'::jsonb,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 3,
+  error TEXT,
+  locked_until TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_ingestion_jobs_file_id ON public.ingestion_jobs(file_id);
+CREATE INDEX idx_ingestion_jobs_status ON public.ingestion_jobs(status, created_at);
+
+ALTER TABLE public.ingestion_jobs ENABLE ROW LEVEL SECURITY;
+
+-- Jobs are written by the edge function (service role); the client only reads them
+CREATE POLICY "Allow public read access to ingestion_jobs" ON public.ingestion_jobs FOR SELECT USING (true);
+
+CREATE TRIGGER update_ingestion_jobs_updated_at
+BEFORE UPDATE ON public.ingestion_jobs
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Atomically lease a job: the given one, or the oldest waiting/stalled job when
+-- p_job_id is NULL. Running jobs whose lease expired are treated as crashed.
+CREATE OR REPLACE FUNCTION public.claim_ingestion_job(p_job_id UUID DEFAULT NULL, p_lease_seconds INTEGER DEFAULT 300)
+RETURNS SETOF public.ingestion_jobs
+LANGUAGE sql
+SET search_path = public
+AS $$
+  UPDATE public.ingestion_jobs j
+  SET status = 'running',
+      locked_until = now() + make_interval(secs => p_lease_seconds)
+  WHERE j.id = (
+    SELECT id
+    FROM public.ingestion_jobs
+    WHERE (p_job_id IS NULL OR id = p_job_id)
+      AND (status = 'queued' OR (status = 'running' AND locked_until < now()))
+    ORDER BY created_at
+    LIMIT 1
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING j.*;
+$$;
+
+-- The link stage may be retried: replace the file's semantic edges instead of adding duplicates
+CREATE OR REPLACE FUNCTION public.create_semantic_edges(p_file_id UUID, p_k INTEGER DEFAULT 5)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SET search_path = public
+SET ivfflat.probes = 10
+AS $$
+DECLARE
+  inserted INTEGER;
+BEGIN
+  DELETE FROM public.edges e
+  USING public.nodes n
+  WHERE e.source_node_id = n.id
+    AND n.file_id = p_file_id
+    AND e.edge_type = 'semantic';
+
+  INSERT INTO public.edges (source_node_id, target_node_id, edge_type, weight)
+  SELECT n.id, neighbour.id, 'semantic', 1 - neighbour.distance
+  FROM public.nodes n
+  CROSS JOIN LATERAL (
+    SELECT m.id, m.embedding <=> n.embedding AS distance
+    FROM public.nodes m
+    WHERE m.file_id = p_file_id
+      AND m.id <> n.id
+      AND m.embedding IS NOT NULL
+    ORDER BY m.embedding <=> n.embedding
+    LIMIT p_k
+  ) neighbour
+  WHERE n.file_id = p_file_id
+    AND n.embedding IS NOT NULL;
+
+  GET DIAGNOSTICS inserted = ROW_COUNT;
+  RETURN inserted;
+END;
+$$;
@@ -0,0 +1,3 @@
+-- Stream ingestion_jobs updates to the upload panel through Supabase Realtime.
+-- The existing public SELECT policy decides which rows a subscriber receives.
+ALTER PUBLICATION supabase_realtime ADD TABLE public.ingestion_jobs;
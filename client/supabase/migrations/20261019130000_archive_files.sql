@@ -0,0 +1,6 @@
+-- Files unpacked from an uploaded archive point back at the archive's files row.
+-- Deleting (or re-unpacking) the archive removes its unpacked files, their nodes and jobs.
+ALTER TABLE public.files
+  ADD COLUMN parent_file_id UUID REFERENCES public.files(id) ON DELETE CASCADE;
+
+CREATE INDEX idx_files_parent_file_id ON public.files(parent_file_id);
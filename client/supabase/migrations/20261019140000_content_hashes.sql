@@ -0,0 +1,11 @@
+-- SHA-256 of each uploaded file and of each chunk's content. File hashes let
+-- the uploader spot exact duplicates; chunk hashes let process-file reuse an
+-- existing embedding instead of computing it again.
+ALTER TABLE public.files
+  ADD COLUMN content_hash TEXT;
+
+ALTER TABLE public.nodes
+  ADD COLUMN content_hash TEXT;
+
+CREATE INDEX idx_files_content_hash ON public.files(content_hash);
+CREATE INDEX idx_nodes_content_hash ON public.nodes(content_hash, embedding_provider, embedding_model);
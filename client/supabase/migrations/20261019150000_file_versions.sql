@@ -0,0 +1,191 @@
+-- Versioned documents: a files row is the logical document and file_versions
+-- records every upload of it. Nodes are never rewritten in place; a node lives
+-- from the version that introduced it until the version that superseded it, so
+-- any earlier version can still be searched and two versions can be diffed.
+ALTER TABLE public.files
+  ADD COLUMN current_version INTEGER NOT NULL DEFAULT 1;
+
+CREATE TABLE public.file_versions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  file_id UUID NOT NULL REFERENCES public.files(id) ON DELETE CASCADE,
+  version INTEGER NOT NULL,
+  file_path TEXT NOT NULL,
+  file_size INTEGER,
+  content_hash TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (file_id, version)
+);
+
+ALTER TABLE public.file_versions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow public read access to file_versions" ON public.file_versions FOR SELECT USING (true);
+
+-- version: the file version that introduced the node
+-- superseded_in: the version that removed or changed it (NULL while current)
+-- supersedes: the node this one replaced, used to pair up changed chunks
+ALTER TABLE public.nodes
+  ADD COLUMN version INTEGER NOT NULL DEFAULT 1,
+  ADD COLUMN superseded_in INTEGER,
+  ADD COLUMN supersedes UUID REFERENCES public.nodes(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_nodes_file_version ON public.nodes(file_id, superseded_in, version);
+
+-- Existing files become version 1
+INSERT INTO public.file_versions (file_id, version, file_path, file_size, content_hash)
+SELECT id, 1, file_path, file_size, content_hash FROM public.files;
+
+CREATE OR REPLACE FUNCTION public.record_first_file_version()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.file_versions (file_id, version, file_path, file_size, content_hash)
+  VALUES (NEW.id, NEW.current_version, NEW.file_path, NEW.file_size, NEW.content_hash);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER record_first_file_version
+AFTER INSERT ON public.files
+FOR EACH ROW
+EXECUTE FUNCTION public.record_first_file_version();
+
+-- Point the logical file at a newly uploaded object and return its version number
+CREATE OR REPLACE FUNCTION public.create_file_version(
+  p_file_id UUID,
+  p_file_path TEXT,
+  p_file_size INTEGER DEFAULT NULL,
+  p_content_hash TEXT DEFAULT NULL
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  new_version INTEGER;
+BEGIN
+  UPDATE public.files
+  SET current_version = current_version + 1,
+      file_path = p_file_path,
+      file_size = p_file_size,
+      content_hash = p_content_hash,
+      status = 'processing',
+      error_message = NULL
+  WHERE id = p_file_id
+  RETURNING current_version INTO new_version;
+
+  IF new_version IS NULL THEN
+    RAISE EXCEPTION 'File % not found', p_file_id;
+  END IF;
+
+  INSERT INTO public.file_versions (file_id, version, file_path, file_size, content_hash)
+  VALUES (p_file_id, new_version, p_file_path, p_file_size, p_content_hash);
+
+  RETURN new_version;
+END;
+$$;
+
+-- Nodes added, removed or changed between two versions of a file. A changed
+-- node is an added node whose supersedes chain reaches a removed node.
+CREATE OR REPLACE FUNCTION public.diff_file_versions(p_file_id UUID, p_from INTEGER, p_to INTEGER)
+RETURNS TABLE (
+  change TEXT,
+  node_id UUID,
+  previous_node_id UUID,
+  node_type TEXT,
+  content TEXT,
+  previous_content TEXT,
+  metadata JSONB
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH from_nodes AS (
+    SELECT * FROM public.nodes
+    WHERE file_id = p_file_id
+      AND version <= p_from
+      AND (superseded_in IS NULL OR superseded_in > p_from)
+  ),
+  to_nodes AS (
+    SELECT * FROM public.nodes
+    WHERE file_id = p_file_id
+      AND version <= p_to
+      AND (superseded_in IS NULL OR superseded_in > p_to)
+  ),
+  added AS (
+    SELECT t.* FROM to_nodes t WHERE NOT EXISTS (SELECT 1 FROM from_nodes f WHERE f.id = t.id)
+  ),
+  removed AS (
+    SELECT f.* FROM from_nodes f WHERE NOT EXISTS (SELECT 1 FROM to_nodes t WHERE t.id = f.id)
+  ),
+  lineage AS (
+    SELECT a.id AS added_id, a.supersedes AS ancestor_id
+    FROM added a
+    WHERE a.supersedes IS NOT NULL
+    UNION ALL
+    SELECT l.added_id, n.supersedes
+    FROM lineage l
+    JOIN public.nodes n ON n.id = l.ancestor_id
+    WHERE n.supersedes IS NOT NULL
+      AND NOT EXISTS (SELECT 1 FROM removed r WHERE r.id = l.ancestor_id)
+  ),
+  pairs AS (
+    SELECT DISTINCT l.added_id, l.ancestor_id AS removed_id
+    FROM lineage l
+    JOIN removed r ON r.id = l.ancestor_id
+  )
+  SELECT 'changed', a.id, r.id, a.node_type, a.content, r.content, a.metadata
+  FROM pairs p
+  JOIN added a ON a.id = p.added_id
+  JOIN removed r ON r.id = p.removed_id
+  UNION ALL
+  SELECT 'added', a.id, NULL, a.node_type, a.content, NULL, a.metadata
+  FROM added a
+  WHERE a.id NOT IN (SELECT added_id FROM pairs)
+  UNION ALL
+  SELECT 'removed', r.id, NULL, r.node_type, r.content, NULL, r.metadata
+  FROM removed r
+  WHERE r.id NOT IN (SELECT removed_id FROM pairs);
+$$;
+
+-- Semantic neighbours are recomputed among current nodes only; superseded
+-- nodes keep the edges they had so older versions stay searchable.
+CREATE OR REPLACE FUNCTION public.create_semantic_edges(p_file_id UUID, p_k INTEGER DEFAULT 5)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SET search_path = public
+SET ivfflat.probes = 10
+AS $$
+DECLARE
+  inserted INTEGER;
+BEGIN
+  DELETE FROM public.edges e
+  USING public.nodes n
+  WHERE e.source_node_id = n.id
+    AND n.file_id = p_file_id
+    AND n.superseded_in IS NULL
+    AND e.edge_type = 'semantic';
+
+  INSERT INTO public.edges (source_node_id, target_node_id, edge_type, weight)
+  SELECT n.id, neighbour.id, 'semantic', 1 - neighbour.distance
+  FROM public.nodes n
+  CROSS JOIN LATERAL (
+    SELECT m.id, m.embedding <=> n.embedding AS distance
+    FROM public.nodes m
+    WHERE m.file_id = p_file_id
+      AND m.superseded_in IS NULL
+      AND m.id <> n.id
+      AND m.embedding IS NOT NULL
+    ORDER BY m.embedding <=> n.embedding
+    LIMIT p_k
+  ) neighbour
+  WHERE n.file_id = p_file_id
+    AND n.superseded_in IS NULL
+    AND n.embedding IS NOT NULL;
+
+  GET DIAGNOSTICS inserted = ROW_COUNT;
+  RETURN inserted;
+END;
+$$;
@@ -0,0 +1,14 @@
+-- Node and edge counts per file for the file library. Only nodes of the
+-- current version are counted; edges are counted from their source node.
+CREATE OR REPLACE FUNCTION public.file_graph_stats()
+RETURNS TABLE (file_id UUID, node_count BIGINT, edge_count BIGINT)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT n.file_id, COUNT(DISTINCT n.id), COUNT(e.id)
+  FROM public.nodes n
+  LEFT JOIN public.edges e ON e.source_node_id = n.id
+  WHERE n.superseded_in IS NULL
+  GROUP BY n.file_id;
+$$;
@@ -0,0 +1,128 @@
+-- Collections group uploaded files into named folders. A file belongs to at
+-- most one collection; files unpacked from an archive follow the archive.
+CREATE TABLE public.collections (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL UNIQUE,
+  description TEXT,
+  -- Link chunks to similar chunks in the collection's other files
+  cross_file_edges BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.collections ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow public read access to collections" ON public.collections FOR SELECT USING (true);
+CREATE POLICY "Allow public insert to collections" ON public.collections FOR INSERT WITH CHECK (true);
+CREATE POLICY "Allow public update to collections" ON public.collections FOR UPDATE USING (true);
+CREATE POLICY "Allow public delete from collections" ON public.collections FOR DELETE USING (true);
+
+CREATE TRIGGER update_collections_updated_at
+BEFORE UPDATE ON public.collections
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.files
+  ADD COLUMN collection_id UUID REFERENCES public.collections(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_files_collection ON public.files(collection_id);
+
+-- Files in a collection, including the files unpacked from its archives
+CREATE OR REPLACE FUNCTION public.collection_file_ids(p_collection_id UUID)
+RETURNS SETOF UUID
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT f.id
+  FROM public.files f
+  LEFT JOIN public.files parent ON parent.id = f.parent_file_id
+  WHERE f.collection_id = p_collection_id
+     OR parent.collection_id = p_collection_id;
+$$;
+
+-- Top-k neighbours of a file's current nodes among the current nodes of the
+-- other files in its collection, stored as 'cross_document' edges. Does
+-- nothing unless the collection has cross_file_edges enabled. Only vectors
+-- from the same provider/model are compared.
+CREATE OR REPLACE FUNCTION public.create_cross_document_edges(p_file_id UUID, p_k INTEGER DEFAULT 5)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SET search_path = public
+SET ivfflat.probes = 10
+AS $$
+DECLARE
+  target_collection UUID;
+  inserted INTEGER;
+BEGIN
+  SELECT c.id INTO target_collection
+  FROM public.files f
+  LEFT JOIN public.files parent ON parent.id = f.parent_file_id
+  JOIN public.collections c ON c.id = COALESCE(f.collection_id, parent.collection_id)
+  WHERE f.id = p_file_id
+    AND c.cross_file_edges;
+
+  DELETE FROM public.edges e
+  USING public.nodes n
+  WHERE e.source_node_id = n.id
+    AND n.file_id = p_file_id
+    AND n.superseded_in IS NULL
+    AND e.edge_type = 'cross_document';
+
+  IF target_collection IS NULL THEN
+    RETURN 0;
+  END IF;
+
+  INSERT INTO public.edges (source_node_id, target_node_id, edge_type, weight)
+  SELECT n.id, neighbour.id, 'cross_document', 1 - neighbour.distance
+  FROM public.nodes n
+  CROSS JOIN LATERAL (
+    SELECT m.id, m.embedding <=> n.embedding AS distance
+    FROM public.nodes m
+    WHERE m.file_id IN (SELECT public.collection_file_ids(target_collection))
+      AND m.file_id <> p_file_id
+      AND m.superseded_in IS NULL
+      AND m.embedding IS NOT NULL
+      AND m.embedding_provider IS NOT DISTINCT FROM n.embedding_provider
+      AND m.embedding_model IS NOT DISTINCT FROM n.embedding_model
+    ORDER BY m.embedding <=> n.embedding
+    LIMIT p_k
+  ) neighbour
+  WHERE n.file_id = p_file_id
+    AND n.superseded_in IS NULL
+    AND n.embedding IS NOT NULL;
+
+  GET DIAGNOSTICS inserted = ROW_COUNT;
+  RETURN inserted;
+END;
+$$;
+
+-- Recompute the cross-file edges of a whole collection, e.g. after files
+-- were moved in or out or cross_file_edges was switched. Edges touching a
+-- file that left the collection are dropped as well.
+CREATE OR REPLACE FUNCTION public.refresh_collection_edges(p_collection_id UUID, p_k INTEGER DEFAULT 5)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  member UUID;
+  inserted INTEGER := 0;
+BEGIN
+  DELETE FROM public.edges e
+  USING public.nodes s, public.nodes t
+  WHERE e.edge_type = 'cross_document'
+    AND s.id = e.source_node_id
+    AND t.id = e.target_node_id
+    AND (
+      s.file_id IN (SELECT public.collection_file_ids(p_collection_id))
+      OR t.file_id IN (SELECT public.collection_file_ids(p_collection_id))
+    );
+
+  FOR member IN SELECT public.collection_file_ids(p_collection_id) LOOP
+    inserted := inserted + public.create_cross_document_edges(member, p_k);
+  END LOOP;
+
+  RETURN inserted;
+END;
+$$;
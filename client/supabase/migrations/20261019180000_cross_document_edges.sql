@@ -0,0 +1,60 @@
+-- Cross-document edges can also be requested per upload. With p_force the
+-- file is linked even when its collection has cross_file_edges switched off,
+-- and a file outside any collection is linked to every other file.
+DROP FUNCTION IF EXISTS public.create_cross_document_edges(UUID, INTEGER);
+
+CREATE OR REPLACE FUNCTION public.create_cross_document_edges(
+  p_file_id UUID,
+  p_k INTEGER DEFAULT 5,
+  p_force BOOLEAN DEFAULT false
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SET search_path = public
+SET ivfflat.probes = 10
+AS $$
+DECLARE
+  target_collection UUID;
+  linked BOOLEAN;
+  inserted INTEGER;
+BEGIN
+  SELECT c.id, c.cross_file_edges INTO target_collection, linked
+  FROM public.files f
+  LEFT JOIN public.files parent ON parent.id = f.parent_file_id
+  LEFT JOIN public.collections c ON c.id = COALESCE(f.collection_id, parent.collection_id)
+  WHERE f.id = p_file_id;
+
+  DELETE FROM public.edges e
+  USING public.nodes n
+  WHERE e.source_node_id = n.id
+    AND n.file_id = p_file_id
+    AND n.superseded_in IS NULL
+    AND e.edge_type = 'cross_document';
+
+  IF NOT p_force AND NOT COALESCE(linked, false) THEN
+    RETURN 0;
+  END IF;
+
+  INSERT INTO public.edges (source_node_id, target_node_id, edge_type, weight)
+  SELECT n.id, neighbour.id, 'cross_document', 1 - neighbour.distance
+  FROM public.nodes n
+  CROSS JOIN LATERAL (
+    SELECT m.id, m.embedding <=> n.embedding AS distance
+    FROM public.nodes m
+    WHERE (target_collection IS NULL OR m.file_id IN (SELECT public.collection_file_ids(target_collection)))
+      AND m.file_id <> p_file_id
+      AND m.superseded_in IS NULL
+      AND m.embedding IS NOT NULL
+      AND m.embedding_provider IS NOT DISTINCT FROM n.embedding_provider
+      AND m.embedding_model IS NOT DISTINCT FROM n.embedding_model
+    ORDER BY m.embedding <=> n.embedding
+    LIMIT p_k
+  ) neighbour
+  WHERE n.file_id = p_file_id
+    AND n.superseded_in IS NULL
+    AND n.embedding IS NOT NULL;
+
+  GET DIAGNOSTICS inserted = ROW_COUNT;
+  RETURN inserted;
+END;
+$$;
@@ -0,0 +1,125 @@
+-- Top-k cosine search for hybrid-search, run next to the data instead of
+-- shipping every embedding to the edge function.
+--
+-- Scope: p_file_ids and/or p_collection_id (NULL for both searches every
+-- file), optionally narrowed to p_node_types. p_version searches an earlier
+-- version of the files; NULL means their current nodes. Only vectors from the
+-- query's provider/model are compared.
+--
+-- Large scopes use the ivfflat index. The index is shared by every file and
+-- filters are applied after it is scanned, so a small scope could come back
+-- short of p_match_count; those are ranked exactly instead, which is cheap
+-- once idx_nodes_file_id has narrowed them down.
+CREATE OR REPLACE FUNCTION public.match_nodes(
+  p_query_embedding vector(768),
+  p_match_count INTEGER,
+  p_embedding_provider TEXT,
+  p_embedding_model TEXT,
+  p_file_ids UUID[] DEFAULT NULL,
+  p_collection_id UUID DEFAULT NULL,
+  p_node_types TEXT[] DEFAULT NULL,
+  p_version INTEGER DEFAULT NULL
+)
+RETURNS TABLE (
+  id UUID,
+  file_id UUID,
+  node_type TEXT,
+  content TEXT,
+  metadata JSONB,
+  version INTEGER,
+  superseded_in INTEGER,
+  similarity DOUBLE PRECISION
+)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+SET ivfflat.probes = 10
+AS $$
+DECLARE
+  -- Scopes with more candidates than this go through the index
+  exact_limit CONSTANT INTEGER := 20000;
+  scope_file_ids UUID[];
+  candidates INTEGER;
+BEGIN
+  IF p_collection_id IS NOT NULL THEN
+    SELECT array_agg(member) INTO scope_file_ids
+    FROM public.collection_file_ids(p_collection_id) AS member
+    WHERE p_file_ids IS NULL OR member = ANY (p_file_ids);
+    scope_file_ids := COALESCE(scope_file_ids, '{}');
+  ELSE
+    scope_file_ids := p_file_ids;
+  END IF;
+
+  IF scope_file_ids IS NOT NULL THEN
+    SELECT COUNT(*) INTO candidates
+    FROM public.nodes n
+    WHERE n.file_id = ANY (scope_file_ids)
+      AND n.embedding IS NOT NULL;
+  END IF;
+
+  IF scope_file_ids IS NOT NULL AND candidates <= exact_limit THEN
+    RETURN QUERY
+    WITH scoped AS MATERIALIZED (
+      SELECT n.*
+      FROM public.nodes n
+      WHERE n.file_id = ANY (scope_file_ids)
+        AND n.embedding IS NOT NULL
+        AND n.embedding_provider IS NOT DISTINCT FROM p_embedding_provider
+        AND n.embedding_model IS NOT DISTINCT FROM p_embedding_model
+        AND (p_node_types IS NULL OR n.node_type = ANY (p_node_types))
+        AND (
+          CASE WHEN p_version IS NULL THEN n.superseded_in IS NULL
+          ELSE n.version <= p_version AND (n.superseded_in IS NULL OR n.superseded_in > p_version)
+          END
+        )
+    )
+    SELECT s.id, s.file_id, s.node_type, s.content, s.metadata, s.version, s.superseded_in,
+      1 - (s.embedding <=> p_query_embedding)
+    FROM scoped s
+    ORDER BY s.embedding <=> p_query_embedding
+    LIMIT p_match_count;
+  ELSE
+    RETURN QUERY
+    SELECT n.id, n.file_id, n.node_type, n.content, n.metadata, n.version, n.superseded_in,
+      1 - (n.embedding <=> p_query_embedding)
+    FROM public.nodes n
+    WHERE (scope_file_ids IS NULL OR n.file_id = ANY (scope_file_ids))
+      AND n.embedding IS NOT NULL
+      AND n.embedding_provider IS NOT DISTINCT FROM p_embedding_provider
+      AND n.embedding_model IS NOT DISTINCT FROM p_embedding_model
+      AND (p_node_types IS NULL OR n.node_type = ANY (p_node_types))
+      AND (
+        CASE WHEN p_version IS NULL THEN n.superseded_in IS NULL
+        ELSE n.version <= p_version AND (n.superseded_in IS NULL OR n.superseded_in > p_version)
+        END
+      )
+    ORDER BY n.embedding <=> p_query_embedding
+    LIMIT p_match_count;
+  END IF;
+END;
+$$;
+
+-- Which embedding provider/model each file in a scope was embedded with, so
+-- hybrid-search can explain an empty result instead of silently returning one
+CREATE OR REPLACE FUNCTION public.scope_embedding_spaces(
+  p_file_ids UUID[] DEFAULT NULL,
+  p_collection_id UUID DEFAULT NULL,
+  p_version INTEGER DEFAULT NULL
+)
+RETURNS TABLE (file_id UUID, embedding_provider TEXT, embedding_model TEXT, node_count BIGINT)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT n.file_id, n.embedding_provider, n.embedding_model, COUNT(*)
+  FROM public.nodes n
+  WHERE (p_file_ids IS NULL OR n.file_id = ANY (p_file_ids))
+    AND (p_collection_id IS NULL OR n.file_id IN (SELECT public.collection_file_ids(p_collection_id)))
+    AND n.embedding IS NOT NULL
+    AND (
+      CASE WHEN p_version IS NULL THEN n.superseded_in IS NULL
+      ELSE n.version <= p_version AND (n.superseded_in IS NULL OR n.superseded_in > p_version)
+      END
+    )
+  GROUP BY n.file_id, n.embedding_provider, n.embedding_model;
+$$;
@@ -0,0 +1,120 @@
+-- Full-text index over node content for the keyword side of hybrid-search.
+-- The english configuration stems words but keeps tokens such as part
+-- numbers ("XJ-200B" indexes as xj-200b, xj and 200b) so exact terms match.
+ALTER TABLE public.nodes
+  ADD COLUMN search_vector tsvector
+  GENERATED ALWAYS AS (to_tsvector('english', content)) STORED;
+
+CREATE INDEX idx_nodes_search_vector ON public.nodes USING gin (search_vector);
+
+-- BM25 ranking of the nodes in a scope against the query's terms (k1 = 1.2,
+-- b = 0.75). A node matches when it contains any query term. Document
+-- frequencies and the average length are taken over the scope, and length is
+-- the number of distinct lexemes in a node, which is what a tsvector keeps.
+--
+-- Scope, node types and version work as in match_nodes; embeddings are not
+-- involved, so every node is searchable whichever model embedded it.
+CREATE OR REPLACE FUNCTION public.keyword_match_nodes(
+  p_query TEXT,
+  p_match_count INTEGER,
+  p_file_ids UUID[] DEFAULT NULL,
+  p_collection_id UUID DEFAULT NULL,
+  p_node_types TEXT[] DEFAULT NULL,
+  p_version INTEGER DEFAULT NULL
+)
+RETURNS TABLE (
+  id UUID,
+  file_id UUID,
+  node_type TEXT,
+  content TEXT,
+  metadata JSONB,
+  version INTEGER,
+  superseded_in INTEGER,
+  score DOUBLE PRECISION
+)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  k1 CONSTANT DOUBLE PRECISION := 1.2;
+  b CONSTANT DOUBLE PRECISION := 0.75;
+  scope_file_ids UUID[];
+  query_terms TEXT[];
+  any_term tsquery;
+BEGIN
+  SELECT array_agg(DISTINCT t.lexeme) INTO query_terms
+  FROM unnest(to_tsvector('english', p_query)) AS t;
+
+  IF query_terms IS NULL THEN
+    RETURN;
+  END IF;
+
+  -- The lexemes are already normalised, so the tsquery is built from them
+  -- directly rather than parsed through the configuration a second time
+  SELECT string_agg(quote_literal(term), ' | ')::tsquery INTO any_term
+  FROM unnest(query_terms) AS term;
+
+  IF p_collection_id IS NOT NULL THEN
+    SELECT array_agg(member) INTO scope_file_ids
+    FROM public.collection_file_ids(p_collection_id) AS member
+    WHERE p_file_ids IS NULL OR member = ANY (p_file_ids);
+    scope_file_ids := COALESCE(scope_file_ids, '{}');
+  ELSE
+    scope_file_ids := p_file_ids;
+  END IF;
+
+  RETURN QUERY
+  WITH scoped AS MATERIALIZED (
+    SELECT n.id, n.search_vector
+    FROM public.nodes n
+    WHERE (scope_file_ids IS NULL OR n.file_id = ANY (scope_file_ids))
+      AND (p_node_types IS NULL OR n.node_type = ANY (p_node_types))
+      AND (
+        CASE WHEN p_version IS NULL THEN n.superseded_in IS NULL
+        ELSE n.version <= p_version AND (n.superseded_in IS NULL OR n.superseded_in > p_version)
+        END
+      )
+  ),
+  stats AS (
+    SELECT COUNT(*)::DOUBLE PRECISION AS doc_count,
+      GREATEST(AVG(length(s.search_vector)), 1)::DOUBLE PRECISION AS avg_length
+    FROM scoped s
+  ),
+  matched AS (
+    SELECT s.id, s.search_vector, length(s.search_vector)::DOUBLE PRECISION AS doc_length
+    FROM scoped s
+    WHERE s.search_vector @@ any_term
+  ),
+  term_counts AS (
+    SELECT m.id, m.doc_length, entry.lexeme,
+      COALESCE(array_length(entry.positions, 1), 1)::DOUBLE PRECISION AS tf
+    FROM matched m
+    CROSS JOIN LATERAL unnest(m.search_vector) AS entry
+    WHERE entry.lexeme = ANY (query_terms)
+  ),
+  doc_freqs AS (
+    SELECT tc.lexeme, COUNT(*)::DOUBLE PRECISION AS df
+    FROM term_counts tc
+    GROUP BY tc.lexeme
+  ),
+  ranked AS (
+    SELECT tc.id,
+      SUM(
+        ln(1 + (st.doc_count - d.df + 0.5) / (d.df + 0.5))
+        * tc.tf * (k1 + 1)
+        / (tc.tf + k1 * (1 - b + b * tc.doc_length / st.avg_length))
+      ) AS bm25
+    FROM term_counts tc
+    JOIN doc_freqs d ON d.lexeme = tc.lexeme
+    CROSS JOIN stats st
+    GROUP BY tc.id
+    ORDER BY bm25 DESC
+    LIMIT p_match_count
+  )
+  SELECT n.id, n.file_id, n.node_type, n.content, n.metadata, n.version, n.superseded_in, r.bm25
+  FROM ranked r
+  JOIN public.nodes n ON n.id = r.id
+  ORDER BY r.bm25 DESC;
+END;
+$$;
@@ -0,0 +1,4 @@
+-- Browser uploads insert files with the anon key, which may read
+-- file_versions but not write to it; the trigger records the first version
+-- with its owner's rights instead. search_path is already pinned to public.
+ALTER FUNCTION public.record_first_file_version() SECURITY DEFINER;
@@ -0,0 +1,137 @@
+-- A stage killed by the edge-function wall-clock limit never reaches its catch
+-- block: the job stays 'running' until its lease expires. Reclaiming such a
+-- job now counts as an attempt, and once max_attempts is used up the job and
+-- its file are failed instead of being retried forever.
+CREATE OR REPLACE FUNCTION public.claim_ingestion_job(p_job_id UUID DEFAULT NULL, p_lease_seconds INTEGER DEFAULT 300)
+RETURNS SETOF public.ingestion_jobs
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  candidate public.ingestion_jobs;
+BEGIN
+  LOOP
+    SELECT * INTO candidate
+    FROM public.ingestion_jobs
+    WHERE (p_job_id IS NULL OR id = p_job_id)
+      AND (status = 'queued' OR (status = 'running' AND locked_until < now()))
+    ORDER BY created_at
+    LIMIT 1
+    FOR UPDATE SKIP LOCKED;
+
+    IF NOT FOUND THEN
+      RETURN;
+    END IF;
+
+    IF candidate.status = 'queued' THEN
+      UPDATE public.ingestion_jobs
+      SET status = 'running',
+          locked_until = now() + make_interval(secs => p_lease_seconds)
+      WHERE id = candidate.id
+      RETURNING * INTO candidate;
+      RETURN NEXT candidate;
+      RETURN;
+    END IF;
+
+    IF candidate.attempts + 1 < candidate.max_attempts THEN
+      UPDATE public.ingestion_jobs
+      SET status = 'running',
+          attempts = attempts + 1,
+          error = format('%s stage did not finish within its time limit', stage),
+          locked_until = now() + make_interval(secs => p_lease_seconds)
+      WHERE id = candidate.id
+      RETURNING * INTO candidate;
+      RETURN NEXT candidate;
+      RETURN;
+    END IF;
+
+    UPDATE public.ingestion_jobs
+    SET status = 'failed',
+        attempts = attempts + 1,
+        error = format('%s stage did not finish within its time limit', stage),
+        locked_until = NULL
+    WHERE id = candidate.id;
+
+    -- Link-only jobs (collection relinks) leave the file's status alone
+    UPDATE public.files
+    SET status = 'failed',
+        error_message = format('%s stage failed: did not finish within its time limit', candidate.stage)
+    WHERE id = candidate.file_id
+      AND NOT COALESCE((candidate.options->>'linkOnly')::BOOLEAN, false);
+    -- Look for the next claimable job
+  END LOOP;
+END;
+$$;
+
+-- Sweep: once a minute, while any job is waiting or has an expired lease, post
+-- {} to process-file so it claims one. Needs the pg_cron and pg_net
+-- extensions and two Vault secrets holding the project URL and service role
+-- key (see "Background job sweep" in the README):
+--   SELECT vault.create_secret('https://<project-ref>.supabase.co', 'project_url');
+--   SELECT vault.create_secret('<service role key>', 'service_role_key');
+-- Without them the sweep is not scheduled and a NOTICE says what is missing;
+-- run SELECT public.schedule_ingestion_sweep(); once they are in place.
+-- Returns whether the sweep is scheduled.
+CREATE OR REPLACE FUNCTION public.schedule_ingestion_sweep()
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  missing TEXT[];
+BEGIN
+  SELECT array_agg(required.name ORDER BY required.name) INTO missing
+  FROM (VALUES ('pg_cron'), ('pg_net')) AS required(name)
+  WHERE NOT EXISTS (SELECT 1 FROM pg_available_extensions a WHERE a.name = required.name);
+
+  IF missing IS NOT NULL THEN
+    RAISE NOTICE 'process-file sweep not scheduled: extension(s) % not available. Stuck ingestion jobs are only reclaimed when process-file is next invoked.', array_to_string(missing, ', ');
+    RETURN false;
+  END IF;
+
+  CREATE EXTENSION IF NOT EXISTS pg_cron;
+  CREATE EXTENSION IF NOT EXISTS pg_net;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_namespace WHERE nspname = 'vault') THEN
+    RAISE NOTICE 'process-file sweep not scheduled: Supabase Vault is not installed, so the project_url and service_role_key secrets cannot be read.';
+    RETURN false;
+  END IF;
+
+  -- A separate statement, so vault.decrypted_secrets is only resolved once Vault is known to exist
+  SELECT array_agg(required.name ORDER BY required.name) INTO missing
+  FROM (VALUES ('project_url'), ('service_role_key')) AS required(name)
+  WHERE NOT EXISTS (SELECT 1 FROM vault.decrypted_secrets v WHERE v.name = required.name);
+
+  IF missing IS NOT NULL THEN
+    RAISE NOTICE 'process-file sweep not scheduled: Vault secret(s) % missing. Create them with vault.create_secret(...), then run SELECT public.schedule_ingestion_sweep();', array_to_string(missing, ', ');
+    RETURN false;
+  END IF;
+
+  PERFORM cron.schedule(
+    'process-file-sweep',
+    '* * * * *',
+    $sweep$
+    SELECT net.http_post(
+      url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/process-file',
+      headers := jsonb_build_object(
+        'Content-Type', 'application/json',
+        'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+      ),
+      body := '{}'::jsonb
+    )
+    WHERE EXISTS (
+      SELECT 1
+      FROM public.ingestion_jobs
+      WHERE status = 'queued'
+         OR (status = 'running' AND locked_until < now())
+    );
+    $sweep$
+  );
+  RETURN true;
+END;
+$$;
+
+-- Only the project owner sets up the sweep
+REVOKE EXECUTE ON FUNCTION public.schedule_ingestion_sweep() FROM PUBLIC, anon, authenticated;
+
+SELECT public.schedule_ingestion_sweep();
@@ -0,0 +1,48 @@
+-- Only the nodes the file's current version added get new semantic edges.
+-- Nodes carried over unchanged keep the edges they already had, because older
+-- versions still traverse them; replacing those would leave an earlier version
+-- with edges into nodes it never contained and none into the ones it did.
+-- The first version adds every node, so a retried link stage still replaces
+-- all of the file's semantic edges.
+CREATE OR REPLACE FUNCTION public.create_semantic_edges(p_file_id UUID, p_k INTEGER DEFAULT 5)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SET search_path = public
+SET ivfflat.probes = 10
+AS $$
+DECLARE
+  file_version INTEGER;
+  inserted INTEGER;
+BEGIN
+  SELECT current_version INTO file_version FROM public.files WHERE id = p_file_id;
+
+  DELETE FROM public.edges e
+  USING public.nodes n
+  WHERE e.source_node_id = n.id
+    AND n.file_id = p_file_id
+    AND n.version = file_version
+    AND n.superseded_in IS NULL
+    AND e.edge_type = 'semantic';
+
+  INSERT INTO public.edges (source_node_id, target_node_id, edge_type, weight)
+  SELECT n.id, neighbour.id, 'semantic', 1 - neighbour.distance
+  FROM public.nodes n
+  CROSS JOIN LATERAL (
+    SELECT m.id, m.embedding <=> n.embedding AS distance
+    FROM public.nodes m
+    WHERE m.file_id = p_file_id
+      AND m.superseded_in IS NULL
+      AND m.id <> n.id
+      AND m.embedding IS NOT NULL
+    ORDER BY m.embedding <=> n.embedding
+    LIMIT p_k
+  ) neighbour
+  WHERE n.file_id = p_file_id
+    AND n.version = file_version
+    AND n.superseded_in IS NULL
+    AND n.embedding IS NOT NULL;
+
+  GET DIAGNOSTICS inserted = ROW_COUNT;
+  RETURN inserted;
+END;
+$$;
@@ -0,0 +1,64 @@
+-- One hop of hybrid-search's graph expansion: the strongest edges leaving each
+-- of p_node_ids, together with the node each edge leads to, so the edge
+-- function sends one POST per hop instead of URL-encoded id lists.
+--
+-- Cross-document edges only point from the file that was linked to older
+-- files, so they are also followed backwards. One edge is kept per node pair
+-- (the strongest), edges into nodes outside the searched version are dropped,
+-- and at most p_max_neighbours edges are returned per source node. Rows are
+-- ordered so callers can page through them with a stable range.
+CREATE OR REPLACE FUNCTION public.graph_neighbours(
+  p_node_ids UUID[],
+  p_max_neighbours INTEGER,
+  p_file_id UUID DEFAULT NULL,
+  p_version INTEGER DEFAULT NULL
+)
+RETURNS TABLE (
+  source_node_id UUID,
+  target_node_id UUID,
+  edge_type TEXT,
+  weight DOUBLE PRECISION,
+  file_id UUID,
+  node_type TEXT,
+  content TEXT,
+  metadata JSONB,
+  version INTEGER,
+  superseded_in INTEGER
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH candidate AS (
+    SELECT e.source_node_id AS from_id, e.target_node_id AS to_id, e.edge_type AS kind, e.weight AS strength
+    FROM public.edges e
+    WHERE e.source_node_id = ANY (p_node_ids)
+    UNION ALL
+    SELECT e.target_node_id, e.source_node_id, e.edge_type, e.weight
+    FROM public.edges e
+    WHERE e.edge_type = 'cross_document'
+      AND e.target_node_id = ANY (p_node_ids)
+  ),
+  strongest AS (
+    SELECT DISTINCT ON (c.from_id, c.to_id) c.from_id, c.to_id, c.kind, c.strength
+    FROM candidate c
+    ORDER BY c.from_id, c.to_id, COALESCE(c.strength, 1) DESC
+  ),
+  ranked AS (
+    SELECT s.from_id, s.to_id, s.kind, s.strength,
+      row_number() OVER (PARTITION BY s.from_id ORDER BY COALESCE(s.strength, 1) DESC, s.to_id) AS position
+    FROM strongest s
+    JOIN public.nodes n ON n.id = s.to_id
+    WHERE CASE
+      WHEN p_version IS NOT NULL AND n.file_id = p_file_id
+        THEN n.version <= p_version AND (n.superseded_in IS NULL OR n.superseded_in > p_version)
+      ELSE n.superseded_in IS NULL
+    END
+  )
+  SELECT r.from_id, r.to_id, r.kind, r.strength::DOUBLE PRECISION,
+    n.file_id, n.node_type, n.content, n.metadata, n.version, n.superseded_in
+  FROM ranked r
+  JOIN public.nodes n ON n.id = r.to_id
+  WHERE r.position <= p_max_neighbours
+  ORDER BY r.from_id, r.position;
+$$;
@@ -0,0 +1,39 @@
+-- Rebuilding a collection's cross-file edges in one RPC ran a k-NN query per
+-- member file inside a single statement, which the browser's role times out
+-- on for any real collection. process-file now does it instead: it calls this
+-- function to drop the collection's cross-document edges (including those
+-- touching a file that just left it) and then queues a link-only ingestion
+-- job for every returned file, so each file is relinked in its own
+-- invocation with the usual retries.
+--
+-- Returns the completed member files to relink: all of them while the
+-- collection links its files, none otherwise. Files still being ingested
+-- link themselves in their own link stage.
+CREATE OR REPLACE FUNCTION public.reset_collection_edges(p_collection_id UUID)
+RETURNS TABLE (file_id UUID, file_path TEXT)
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  DELETE FROM public.edges e
+  USING public.nodes s, public.nodes t
+  WHERE e.edge_type = 'cross_document'
+    AND s.id = e.source_node_id
+    AND t.id = e.target_node_id
+    AND (
+      s.file_id IN (SELECT public.collection_file_ids(p_collection_id))
+      OR t.file_id IN (SELECT public.collection_file_ids(p_collection_id))
+    );
+
+  RETURN QUERY
+  SELECT f.id, f.file_path
+  FROM public.files f
+  JOIN public.collections c ON c.id = p_collection_id
+  WHERE c.cross_file_edges
+    AND f.status = 'completed'
+    AND f.id IN (SELECT public.collection_file_ids(p_collection_id))
+  ORDER BY f.created_at;
+END;
+$$;
+
+DROP FUNCTION IF EXISTS public.refresh_collection_edges(UUID, INTEGER);
@@ -0,0 +1,112 @@
+-- The neighbour search used the ivfflat index shared by every file and only
+-- then filtered to the collection, so a small collection in a large table got
+-- fewer than p_k cross-file neighbours per chunk, often none. As in
+-- match_nodes, small scopes are now ranked exactly. Every chunk of the file is
+-- compared with every candidate, so the cut-off is on the number of distance
+-- computations rather than on the number of candidates.
+CREATE OR REPLACE FUNCTION public.create_cross_document_edges(
+  p_file_id UUID,
+  p_k INTEGER DEFAULT 5,
+  p_force BOOLEAN DEFAULT false
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SET search_path = public
+SET ivfflat.probes = 10
+AS $$
+DECLARE
+  -- Above this many comparisons the index is used instead
+  exact_budget CONSTANT BIGINT := 10000000;
+  target_collection UUID;
+  linked BOOLEAN;
+  scope_file_ids UUID[];
+  source_count BIGINT;
+  candidates BIGINT;
+  inserted INTEGER;
+BEGIN
+  SELECT c.id, c.cross_file_edges INTO target_collection, linked
+  FROM public.files f
+  LEFT JOIN public.files parent ON parent.id = f.parent_file_id
+  LEFT JOIN public.collections c ON c.id = COALESCE(f.collection_id, parent.collection_id)
+  WHERE f.id = p_file_id;
+
+  DELETE FROM public.edges e
+  USING public.nodes n
+  WHERE e.source_node_id = n.id
+    AND n.file_id = p_file_id
+    AND n.superseded_in IS NULL
+    AND e.edge_type = 'cross_document';
+
+  IF NOT p_force AND NOT COALESCE(linked, false) THEN
+    RETURN 0;
+  END IF;
+
+  -- NULL: every other file
+  IF target_collection IS NOT NULL THEN
+    SELECT array_agg(member) INTO scope_file_ids
+    FROM public.collection_file_ids(target_collection) AS member
+    WHERE member <> p_file_id;
+    scope_file_ids := COALESCE(scope_file_ids, '{}');
+  END IF;
+
+  SELECT COUNT(*) INTO source_count
+  FROM public.nodes n
+  WHERE n.file_id = p_file_id
+    AND n.superseded_in IS NULL
+    AND n.embedding IS NOT NULL;
+
+  SELECT COUNT(*) INTO candidates
+  FROM public.nodes m
+  WHERE (scope_file_ids IS NULL OR m.file_id = ANY (scope_file_ids))
+    AND m.file_id <> p_file_id
+    AND m.superseded_in IS NULL
+    AND m.embedding IS NOT NULL;
+
+  IF source_count * candidates <= exact_budget THEN
+    WITH scoped AS MATERIALIZED (
+      SELECT m.id, m.embedding, m.embedding_provider, m.embedding_model
+      FROM public.nodes m
+      WHERE (scope_file_ids IS NULL OR m.file_id = ANY (scope_file_ids))
+        AND m.file_id <> p_file_id
+        AND m.superseded_in IS NULL
+        AND m.embedding IS NOT NULL
+    )
+    INSERT INTO public.edges (source_node_id, target_node_id, edge_type, weight)
+    SELECT n.id, neighbour.id, 'cross_document', 1 - neighbour.distance
+    FROM public.nodes n
+    CROSS JOIN LATERAL (
+      SELECT s.id, s.embedding <=> n.embedding AS distance
+      FROM scoped s
+      WHERE s.embedding_provider IS NOT DISTINCT FROM n.embedding_provider
+        AND s.embedding_model IS NOT DISTINCT FROM n.embedding_model
+      ORDER BY s.embedding <=> n.embedding
+      LIMIT p_k
+    ) neighbour
+    WHERE n.file_id = p_file_id
+      AND n.superseded_in IS NULL
+      AND n.embedding IS NOT NULL;
+  ELSE
+    INSERT INTO public.edges (source_node_id, target_node_id, edge_type, weight)
+    SELECT n.id, neighbour.id, 'cross_document', 1 - neighbour.distance
+    FROM public.nodes n
+    CROSS JOIN LATERAL (
+      SELECT m.id, m.embedding <=> n.embedding AS distance
+      FROM public.nodes m
+      WHERE (scope_file_ids IS NULL OR m.file_id = ANY (scope_file_ids))
+        AND m.file_id <> p_file_id
+        AND m.superseded_in IS NULL
+        AND m.embedding IS NOT NULL
+        AND m.embedding_provider IS NOT DISTINCT FROM n.embedding_provider
+        AND m.embedding_model IS NOT DISTINCT FROM n.embedding_model
+      ORDER BY m.embedding <=> n.embedding
+      LIMIT p_k
+    ) neighbour
+    WHERE n.file_id = p_file_id
+      AND n.superseded_in IS NULL
+      AND n.embedding IS NOT NULL;
+  END IF;
+
+  GET DIAGNOSTICS inserted = ROW_COUNT;
+  RETURN inserted;
+END;
+$$;
@@ -0,0 +1,153 @@
+-- Uploads that asked for cross-document edges lost them on the next relink of
+-- their collection: the relink called create_cross_document_edges without
+-- p_force and, for a collection that doesn't link its files, returned no
+-- jobs at all. The choice is now kept on the file. NULL means the upload left
+-- linking to the collection; otherwise it is the neighbour count it asked for.
+ALTER TABLE public.files ADD COLUMN IF NOT EXISTS cross_document_k INTEGER;
+
+-- A file with cross_document_k is linked whatever its collection says, with
+-- that many neighbours per chunk.
+CREATE OR REPLACE FUNCTION public.create_cross_document_edges(
+  p_file_id UUID,
+  p_k INTEGER DEFAULT 5,
+  p_force BOOLEAN DEFAULT false
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SET search_path = public
+SET ivfflat.probes = 10
+AS $$
+DECLARE
+  -- Above this many comparisons the index is used instead
+  exact_budget CONSTANT BIGINT := 10000000;
+  target_collection UUID;
+  linked BOOLEAN;
+  stored_k INTEGER;
+  k INTEGER;
+  scope_file_ids UUID[];
+  source_count BIGINT;
+  candidates BIGINT;
+  inserted INTEGER;
+BEGIN
+  SELECT c.id, c.cross_file_edges, f.cross_document_k INTO target_collection, linked, stored_k
+  FROM public.files f
+  LEFT JOIN public.files parent ON parent.id = f.parent_file_id
+  LEFT JOIN public.collections c ON c.id = COALESCE(f.collection_id, parent.collection_id)
+  WHERE f.id = p_file_id;
+
+  DELETE FROM public.edges e
+  USING public.nodes n
+  WHERE e.source_node_id = n.id
+    AND n.file_id = p_file_id
+    AND n.superseded_in IS NULL
+    AND e.edge_type = 'cross_document';
+
+  IF NOT p_force AND stored_k IS NULL AND NOT COALESCE(linked, false) THEN
+    RETURN 0;
+  END IF;
+  k := COALESCE(stored_k, p_k);
+
+  -- NULL: every other file
+  IF target_collection IS NOT NULL THEN
+    SELECT array_agg(member) INTO scope_file_ids
+    FROM public.collection_file_ids(target_collection) AS member
+    WHERE member <> p_file_id;
+    scope_file_ids := COALESCE(scope_file_ids, '{}');
+  END IF;
+
+  SELECT COUNT(*) INTO source_count
+  FROM public.nodes n
+  WHERE n.file_id = p_file_id
+    AND n.superseded_in IS NULL
+    AND n.embedding IS NOT NULL;
+
+  SELECT COUNT(*) INTO candidates
+  FROM public.nodes m
+  WHERE (scope_file_ids IS NULL OR m.file_id = ANY (scope_file_ids))
+    AND m.file_id <> p_file_id
+    AND m.superseded_in IS NULL
+    AND m.embedding IS NOT NULL;
+
+  IF source_count * candidates <= exact_budget THEN
+    WITH scoped AS MATERIALIZED (
+      SELECT m.id, m.embedding, m.embedding_provider, m.embedding_model
+      FROM public.nodes m
+      WHERE (scope_file_ids IS NULL OR m.file_id = ANY (scope_file_ids))
+        AND m.file_id <> p_file_id
+        AND m.superseded_in IS NULL
+        AND m.embedding IS NOT NULL
+    )
+    INSERT INTO public.edges (source_node_id, target_node_id, edge_type, weight)
+    SELECT n.id, neighbour.id, 'cross_document', 1 - neighbour.distance
+    FROM public.nodes n
+    CROSS JOIN LATERAL (
+      SELECT s.id, s.embedding <=> n.embedding AS distance
+      FROM scoped s
+      WHERE s.embedding_provider IS NOT DISTINCT FROM n.embedding_provider
+        AND s.embedding_model IS NOT DISTINCT FROM n.embedding_model
+      ORDER BY s.embedding <=> n.embedding
+      LIMIT k
+    ) neighbour
+    WHERE n.file_id = p_file_id
+      AND n.superseded_in IS NULL
+      AND n.embedding IS NOT NULL;
+  ELSE
+    INSERT INTO public.edges (source_node_id, target_node_id, edge_type, weight)
+    SELECT n.id, neighbour.id, 'cross_document', 1 - neighbour.distance
+    FROM public.nodes n
+    CROSS JOIN LATERAL (
+      SELECT m.id, m.embedding <=> n.embedding AS distance
+      FROM public.nodes m
+      WHERE (scope_file_ids IS NULL OR m.file_id = ANY (scope_file_ids))
+        AND m.file_id <> p_file_id
+        AND m.superseded_in IS NULL
+        AND m.embedding IS NOT NULL
+        AND m.embedding_provider IS NOT DISTINCT FROM n.embedding_provider
+        AND m.embedding_model IS NOT DISTINCT FROM n.embedding_model
+      ORDER BY m.embedding <=> n.embedding
+      LIMIT k
+    ) neighbour
+    WHERE n.file_id = p_file_id
+      AND n.superseded_in IS NULL
+      AND n.embedding IS NOT NULL;
+  END IF;
+
+  GET DIAGNOSTICS inserted = ROW_COUNT;
+  RETURN inserted;
+END;
+$$;
+
+-- Edges from a file with cross_document_k into the collection are kept: that
+-- file is linked to every file (or to its own collection's), not because of
+-- this collection. The collection's own such files are relinked even while
+-- it doesn't link its files.
+CREATE OR REPLACE FUNCTION public.reset_collection_edges(p_collection_id UUID)
+RETURNS TABLE (file_id UUID, file_path TEXT)
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  DELETE FROM public.edges e
+  USING public.nodes s, public.nodes t, public.files source_file
+  WHERE e.edge_type = 'cross_document'
+    AND s.id = e.source_node_id
+    AND t.id = e.target_node_id
+    AND source_file.id = s.file_id
+    AND (
+      s.file_id IN (SELECT public.collection_file_ids(p_collection_id))
+      OR (
+        t.file_id IN (SELECT public.collection_file_ids(p_collection_id))
+        AND source_file.cross_document_k IS NULL
+      )
+    );
+
+  RETURN QUERY
+  SELECT f.id, f.file_path
+  FROM public.files f
+  JOIN public.collections c ON c.id = p_collection_id
+  WHERE (c.cross_file_edges OR f.cross_document_k IS NOT NULL)
+    AND f.status = 'completed'
+    AND f.id IN (SELECT public.collection_file_ids(p_collection_id))
+  ORDER BY f.created_at;
+END;
+$$;
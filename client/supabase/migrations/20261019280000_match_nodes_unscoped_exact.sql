@@ -0,0 +1,96 @@
+-- An unscoped search ("all") never counted its candidates and always went
+-- through the ivfflat index, so with the provider, node type and version
+-- filters applied after the scan it could come back short just like a small
+-- scope. It now takes the exact path whenever the whole table is small enough.
+CREATE OR REPLACE FUNCTION public.match_nodes(
+  p_query_embedding vector(768),
+  p_match_count INTEGER,
+  p_embedding_provider TEXT,
+  p_embedding_model TEXT,
+  p_file_ids UUID[] DEFAULT NULL,
+  p_collection_id UUID DEFAULT NULL,
+  p_node_types TEXT[] DEFAULT NULL,
+  p_version INTEGER DEFAULT NULL
+)
+RETURNS TABLE (
+  id UUID,
+  file_id UUID,
+  node_type TEXT,
+  content TEXT,
+  metadata JSONB,
+  version INTEGER,
+  superseded_in INTEGER,
+  similarity DOUBLE PRECISION
+)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+SET ivfflat.probes = 10
+AS $$
+DECLARE
+  -- Scopes with more candidates than this go through the index
+  exact_limit CONSTANT INTEGER := 20000;
+  scope_file_ids UUID[];
+  candidates INTEGER;
+BEGIN
+  IF p_collection_id IS NOT NULL THEN
+    SELECT array_agg(member) INTO scope_file_ids
+    FROM public.collection_file_ids(p_collection_id) AS member
+    WHERE p_file_ids IS NULL OR member = ANY (p_file_ids);
+    scope_file_ids := COALESCE(scope_file_ids, '{}');
+  ELSE
+    scope_file_ids := p_file_ids;
+  END IF;
+
+  -- Counting stops past exact_limit, so an unscoped search of a large table
+  -- doesn't scan it just to choose the index
+  SELECT COUNT(*) INTO candidates
+  FROM (
+    SELECT 1
+    FROM public.nodes n
+    WHERE (scope_file_ids IS NULL OR n.file_id = ANY (scope_file_ids))
+      AND n.embedding IS NOT NULL
+    LIMIT exact_limit + 1
+  ) counted;
+
+  IF candidates <= exact_limit THEN
+    RETURN QUERY
+    WITH scoped AS MATERIALIZED (
+      SELECT n.*
+      FROM public.nodes n
+      WHERE (scope_file_ids IS NULL OR n.file_id = ANY (scope_file_ids))
+        AND n.embedding IS NOT NULL
+        AND n.embedding_provider IS NOT DISTINCT FROM p_embedding_provider
+        AND n.embedding_model IS NOT DISTINCT FROM p_embedding_model
+        AND (p_node_types IS NULL OR n.node_type = ANY (p_node_types))
+        AND (
+          CASE WHEN p_version IS NULL THEN n.superseded_in IS NULL
+          ELSE n.version <= p_version AND (n.superseded_in IS NULL OR n.superseded_in > p_version)
+          END
+        )
+    )
+    SELECT s.id, s.file_id, s.node_type, s.content, s.metadata, s.version, s.superseded_in,
+      1 - (s.embedding <=> p_query_embedding)
+    FROM scoped s
+    ORDER BY s.embedding <=> p_query_embedding
+    LIMIT p_match_count;
+  ELSE
+    RETURN QUERY
+    SELECT n.id, n.file_id, n.node_type, n.content, n.metadata, n.version, n.superseded_in,
+      1 - (n.embedding <=> p_query_embedding)
+    FROM public.nodes n
+    WHERE (scope_file_ids IS NULL OR n.file_id = ANY (scope_file_ids))
+      AND n.embedding IS NOT NULL
+      AND n.embedding_provider IS NOT DISTINCT FROM p_embedding_provider
+      AND n.embedding_model IS NOT DISTINCT FROM p_embedding_model
+      AND (p_node_types IS NULL OR n.node_type = ANY (p_node_types))
+      AND (
+        CASE WHEN p_version IS NULL THEN n.superseded_in IS NULL
+        ELSE n.version <= p_version AND (n.superseded_in IS NULL OR n.superseded_in > p_version)
+        END
+      )
+    ORDER BY n.embedding <=> p_query_embedding
+    LIMIT p_match_count;
+  END IF;
+END;
+$$;
@@ -0,0 +1,142 @@
+-- A new version reused the nodes of unchanged chunks but left everything
+-- between them as it was: their metadata (chunk index, offsets, row number,
+-- heading) still described the previous version, and a structural edge
+-- between two unchanged nodes was neither added nor removed, so a paragraph
+-- moved under another unchanged heading kept its old parent. Edges are now
+-- versioned like nodes: `version` is the file version that added the edge
+-- (NULL: edges from before versioning, and cross-document edges, which are
+-- always rebuilt) and `superseded_in` the first version it is not part of.
+ALTER TABLE public.edges
+  ADD COLUMN IF NOT EXISTS version INTEGER,
+  ADD COLUMN IF NOT EXISTS superseded_in INTEGER;
+
+-- Rewrite the metadata of reused nodes in one statement. Takes
+-- [{ "id": ..., "metadata": {...} }, ...] and returns how many rows changed.
+CREATE OR REPLACE FUNCTION public.update_node_metadata(p_nodes JSONB)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  updated INTEGER;
+BEGIN
+  UPDATE public.nodes n
+  SET metadata = r.metadata
+  FROM jsonb_to_recordset(p_nodes) AS r(id UUID, metadata JSONB)
+  WHERE n.id = r.id
+    AND n.metadata IS DISTINCT FROM r.metadata;
+
+  GET DIAGNOSTICS updated = ROW_COUNT;
+  RETURN updated;
+END;
+$$;
+
+-- Undo the edge changes of a failed attempt at p_version of a file: edges it
+-- added between carried-over nodes are deleted (the others cascade with its
+-- nodes) and edges it retired are restored.
+CREATE OR REPLACE FUNCTION public.reset_version_edges(p_file_id UUID, p_version INTEGER)
+RETURNS VOID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  DELETE FROM public.edges e
+  USING public.nodes n
+  WHERE e.source_node_id = n.id
+    AND n.file_id = p_file_id
+    AND e.version = p_version;
+
+  UPDATE public.edges e
+  SET superseded_in = NULL
+  FROM public.nodes n
+  WHERE e.source_node_id = n.id
+    AND n.file_id = p_file_id
+    AND e.superseded_in = p_version;
+END;
+$$;
+
+-- Edges are filtered like the nodes they lead to. Version numbers belong to
+-- the file of the edge's source node, so the p_version window only applies to
+-- edges leaving p_file_id; every other edge must still be current.
+CREATE OR REPLACE FUNCTION public.graph_neighbours(
+  p_node_ids UUID[],
+  p_max_neighbours INTEGER,
+  p_file_id UUID DEFAULT NULL,
+  p_version INTEGER DEFAULT NULL
+)
+RETURNS TABLE (
+  source_node_id UUID,
+  target_node_id UUID,
+  edge_type TEXT,
+  weight DOUBLE PRECISION,
+  file_id UUID,
+  node_type TEXT,
+  content TEXT,
+  metadata JSONB,
+  version INTEGER,
+  superseded_in INTEGER
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH candidate AS (
+    SELECT e.source_node_id AS from_id, e.target_node_id AS to_id, e.edge_type AS kind, e.weight AS strength,
+      owner.file_id AS owner_file, e.version AS added, e.superseded_in AS retired
+    FROM public.edges e
+    JOIN public.nodes owner ON owner.id = e.source_node_id
+    WHERE e.source_node_id = ANY (p_node_ids)
+    UNION ALL
+    SELECT e.target_node_id, e.source_node_id, e.edge_type, e.weight,
+      owner.file_id, e.version, e.superseded_in
+    FROM public.edges e
+    JOIN public.nodes owner ON owner.id = e.source_node_id
+    WHERE e.edge_type = 'cross_document'
+      AND e.target_node_id = ANY (p_node_ids)
+  ),
+  visible AS (
+    SELECT c.from_id, c.to_id, c.kind, c.strength
+    FROM candidate c
+    WHERE CASE
+      WHEN p_version IS NOT NULL AND c.owner_file = p_file_id
+        THEN (c.added IS NULL OR c.added <= p_version) AND (c.retired IS NULL OR c.retired > p_version)
+      ELSE c.retired IS NULL
+    END
+  ),
+  strongest AS (
+    SELECT DISTINCT ON (v.from_id, v.to_id) v.from_id, v.to_id, v.kind, v.strength
+    FROM visible v
+    ORDER BY v.from_id, v.to_id, COALESCE(v.strength, 1) DESC
+  ),
+  ranked AS (
+    SELECT s.from_id, s.to_id, s.kind, s.strength,
+      row_number() OVER (PARTITION BY s.from_id ORDER BY COALESCE(s.strength, 1) DESC, s.to_id) AS position
+    FROM strongest s
+    JOIN public.nodes n ON n.id = s.to_id
+    WHERE CASE
+      WHEN p_version IS NOT NULL AND n.file_id = p_file_id
+        THEN n.version <= p_version AND (n.superseded_in IS NULL OR n.superseded_in > p_version)
+      ELSE n.superseded_in IS NULL
+    END
+  )
+  SELECT r.from_id, r.to_id, r.kind, r.strength::DOUBLE PRECISION,
+    n.file_id, n.node_type, n.content, n.metadata, n.version, n.superseded_in
+  FROM ranked r
+  JOIN public.nodes n ON n.id = r.to_id
+  WHERE r.position <= p_max_neighbours
+  ORDER BY r.from_id, r.position;
+$$;
+
+-- Retired edges no longer count towards the file library's edge totals
+CREATE OR REPLACE FUNCTION public.file_graph_stats()
+RETURNS TABLE (file_id UUID, node_count BIGINT, edge_count BIGINT)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT n.file_id, COUNT(DISTINCT n.id), COUNT(e.id)
+  FROM public.nodes n
+  LEFT JOIN public.edges e ON e.source_node_id = n.id AND e.superseded_in IS NULL
+  WHERE n.superseded_in IS NULL
+  GROUP BY n.file_id;
+$$;
@@ -0,0 +1,66 @@
+-- Only nodes a version added used to get semantic edges, so nodes carried
+-- over never pointed at the new or changed ones, and with a corpus-weighted
+-- provider they kept edges computed from their old vectors. Every current
+-- node now gets its top-k again on each version. The edges carried-over nodes
+-- had are retired rather than deleted, so older versions still traverse them.
+-- A retried link stage replaces what the previous attempt at the same
+-- version inserted; the first version just replaces the file's edges.
+CREATE OR REPLACE FUNCTION public.create_semantic_edges(p_file_id UUID, p_k INTEGER DEFAULT 5)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SET search_path = public
+SET ivfflat.probes = 10
+AS $$
+DECLARE
+  file_version INTEGER;
+  inserted INTEGER;
+BEGIN
+  SELECT current_version INTO file_version FROM public.files WHERE id = p_file_id;
+  file_version := COALESCE(file_version, 1);
+
+  IF file_version = 1 THEN
+    DELETE FROM public.edges e
+    USING public.nodes n
+    WHERE e.source_node_id = n.id
+      AND n.file_id = p_file_id
+      AND n.superseded_in IS NULL
+      AND e.edge_type = 'semantic';
+  ELSE
+    DELETE FROM public.edges e
+    USING public.nodes n
+    WHERE e.source_node_id = n.id
+      AND n.file_id = p_file_id
+      AND e.edge_type = 'semantic'
+      AND e.version = file_version;
+
+    UPDATE public.edges e
+    SET superseded_in = file_version
+    FROM public.nodes n
+    WHERE e.source_node_id = n.id
+      AND n.file_id = p_file_id
+      AND n.superseded_in IS NULL
+      AND e.edge_type = 'semantic'
+      AND e.superseded_in IS NULL;
+  END IF;
+
+  INSERT INTO public.edges (source_node_id, target_node_id, edge_type, weight, version)
+  SELECT n.id, neighbour.id, 'semantic', 1 - neighbour.distance, file_version
+  FROM public.nodes n
+  CROSS JOIN LATERAL (
+    SELECT m.id, m.embedding <=> n.embedding AS distance
+    FROM public.nodes m
+    WHERE m.file_id = p_file_id
+      AND m.superseded_in IS NULL
+      AND m.id <> n.id
+      AND m.embedding IS NOT NULL
+    ORDER BY m.embedding <=> n.embedding
+    LIMIT p_k
+  ) neighbour
+  WHERE n.file_id = p_file_id
+    AND n.superseded_in IS NULL
+    AND n.embedding IS NOT NULL;
+
+  GET DIAGNOSTICS inserted = ROW_COUNT;
+  RETURN inserted;
+END;
+$$;